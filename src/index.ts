@@ -2,10 +2,22 @@ import { Elysia } from 'elysia';
 import { cors } from '@elysiajs/cors';
 import { swagger } from '@elysiajs/swagger';
 import mongoose from 'mongoose';
+import { authRouter } from './router/auth.routes';
 import { contactRouter } from './router/contact';
+import { tagRouter } from './router/tag.routes';
+import { contactGroupRouter } from './router/contact-group.routes';
+import { webhookRouter } from './router/webhook.routes';
 import { chatRouter } from './router/chat.routes';
 import { messageRouter } from './router/message.routes';
+import { realtimeRouter } from './router/realtime.routes';
+import { searchRouter } from './router/search.routes';
+import { adminRouter } from './router/admin.routes';
 import { requestLogger, logger } from './utils/logger';
+import { authGuard } from './utils/auth';
+import { errorHandler } from './utils/errors';
+import { openApiSchemas } from './utils/openapi';
+import { messageScheduler } from './utils/scheduler';
+import { webhookDispatcher } from './utils/webhooks';
 
 const app = new Elysia()
 const port = process.env.PORT || 3000
@@ -14,11 +26,20 @@ const port = process.env.PORT || 3000
 const mongoUrl = process.env.MONGODB_URI || 'mongodb://localhost:27017/chat-app';
 
 mongoose.connect(mongoUrl)
-  .then(() => logger.info('Conectado a MongoDB'))
+  .then(() => {
+    logger.info('Conectado a MongoDB');
+    // Envía los mensajes programados y las entregas de webhooks, incluidos los
+    // pendientes de antes de un reinicio
+    messageScheduler.start();
+    webhookDispatcher.start();
+  })
   .catch(err => logger.error('Error al conectar a MongoDB', err));
 
 // Middlewares
 try {
+  // Manejador global de errores (antes que las rutas para que se aplique a todas)
+  app.use(errorHandler);
+
   // Logger de peticiones
   app.use(requestLogger());
   app.use(cors());
@@ -30,23 +51,39 @@ try {
         info: {
           title: 'Back A P4',
           version: '1.0.0'
-        }
+        },
+        components: {
+          schemas: openApiSchemas,
+          securitySchemes: {
+            bearerAuth: {
+              type: 'http',
+              scheme: 'bearer',
+              bearerFormat: 'JWT'
+            }
+          }
+        },
+        security: [{ bearerAuth: [] }]
       },
       path: '/docs'
     })
   );
 
+  // Rutas públicas de autenticación
+  app.use(authRouter);
+
+  // A partir de aquí todas las rutas requieren un token de acceso
+  app.use(authGuard);
+
   // Rutas
   app.use(contactRouter);
+  app.use(tagRouter);
+  app.use(contactGroupRouter);
   app.use(chatRouter);
   app.use(messageRouter);
-
-  // Manejador de errores global
-  app.onError(({ code, error, set }) => {
-    logger.error(`Error [${code}]`, error);
-    set.status = 500;
-    return { error: 'Error interno del servidor' };
-  });
+  app.use(searchRouter);
+  app.use(realtimeRouter);
+  app.use(webhookRouter);
+  app.use(adminRouter);
 
   app.listen(port, () => {
     logger.info(`Servidor iniciado en http://localhost:${port}`);
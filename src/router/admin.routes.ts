@@ -0,0 +1,63 @@
+import Elysia from 'elysia';
+import { authGuard, requireAdmin } from '../utils/auth';
+import { findOrphans, purgeOrphans } from '../utils/orphans';
+import { withTransaction } from '../utils/transaction';
+import { logger } from '../utils/logger';
+import { dataResponse, errorResponses, jsonResponse, ref } from '../utils/openapi';
+
+export const adminRouter = new Elysia({ prefix: '/admin' })
+  .use(authGuard)
+  .guard({ beforeHandle: requireAdmin }, app => app
+    // Informe de chats y mensajes huérfanos
+    .get('/orphans', async () => {
+      const { orphanChatIds, orphanMessageChatIds, orphanMessageCount } = await findOrphans();
+
+      return {
+        chats: {
+          count: orphanChatIds.length,
+          ids: orphanChatIds.map(id => id.toString())
+        },
+        messages: {
+          count: orphanMessageCount,
+          chatIds: orphanMessageChatIds.map(id => id.toString())
+        }
+      };
+    }, {
+      detail: {
+        tags: ['Administración'],
+        summary: 'Buscar datos huérfanos',
+        description: 'Lista los chats cuyo contacto ya no existe y cuenta los mensajes cuyo chat ya no existe o es huérfano. Requiere rol de administrador',
+        responses: {
+          200: jsonResponse('Informe de datos huérfanos', ref('OrphanReport')),
+          ...errorResponses({
+            403: 'Se requieren permisos de administrador',
+            500: 'Error del servidor'
+          })
+        }
+      }
+    })
+
+    // Eliminar chats y mensajes huérfanos
+    .delete('/orphans', async ({ userId }) => {
+      const result = await withTransaction(session => purgeOrphans(session));
+      logger.info('Datos huérfanos eliminados', { userId, ...result });
+
+      return {
+        message: 'Datos huérfanos eliminados exitosamente',
+        data: result
+      };
+    }, {
+      detail: {
+        tags: ['Administración'],
+        summary: 'Eliminar datos huérfanos',
+        description: 'Elimina en una transacción los chats sin contacto y los mensajes y mensajes programados sin chat, junto con sus adjuntos. Requiere rol de administrador',
+        responses: {
+          200: dataResponse('Datos huérfanos eliminados', ref('OrphanPurgeResult')),
+          ...errorResponses({
+            403: 'Se requieren permisos de administrador',
+            500: 'Error del servidor'
+          })
+        }
+      }
+    })
+  );
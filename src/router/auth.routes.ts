@@ -0,0 +1,100 @@
+import Elysia from 'elysia';
+import { User, registerValidationSchema, loginValidationSchema } from '../schema/user';
+import { authJwt, authGuard } from '../utils/auth';
+import { ConflictError, NotFoundError, UnauthorizedError } from '../utils/errors';
+import { errorResponses, jsonBody, jsonResponse, ref } from '../utils/openapi';
+
+export const authRouter = new Elysia({ prefix: '/auth' })
+  .use(authJwt)
+
+  // Registrar un nuevo usuario
+  .post('/register', async ({ body, set, jwt }) => {
+    const userData = registerValidationSchema.parse(body);
+
+    // Verificar si el correo ya existe
+    const existingUser = await User.findOne({ email: userData.email.toLowerCase() });
+    if (existingUser) {
+      throw new ConflictError('El correo electrónico ya está registrado', { email: userData.email });
+    }
+
+    const user = new User(userData);
+    await user.save();
+
+    const token = await jwt.sign({ sub: user._id.toString() });
+
+    set.status = 201;
+    return {
+      message: 'Usuario registrado exitosamente',
+      token,
+      data: user.toObject()
+    };
+  }, {
+    detail: {
+      tags: ['Autenticación'],
+      summary: 'Registrar un usuario',
+      description: 'Crea una cuenta de usuario y devuelve un token de acceso',
+      security: [],
+      requestBody: jsonBody(ref('RegisterInput')),
+      responses: {
+        201: jsonResponse('Usuario registrado exitosamente', ref('AuthResult')),
+        ...errorResponses({
+          400: 'Datos de entrada inválidos',
+          409: 'El correo electrónico ya está registrado'
+        })
+      }
+    }
+  })
+
+  // Iniciar sesión
+  .post('/login', async ({ body, jwt }) => {
+    const { email, password } = loginValidationSchema.parse(body);
+
+    const user = await User.findOne({ email: email.toLowerCase() }).select('+password');
+    if (!user || !(await user.comparePassword(password))) {
+      throw new UnauthorizedError('Credenciales incorrectas');
+    }
+
+    const token = await jwt.sign({ sub: user._id.toString() });
+
+    return {
+      message: 'Sesión iniciada exitosamente',
+      token,
+      data: user.toObject()
+    };
+  }, {
+    detail: {
+      tags: ['Autenticación'],
+      summary: 'Iniciar sesión',
+      description: 'Valida las credenciales y devuelve un token de acceso',
+      security: [],
+      requestBody: jsonBody(ref('LoginInput')),
+      responses: {
+        200: jsonResponse('Sesión iniciada exitosamente', ref('AuthResult')),
+        ...errorResponses({
+          400: 'Datos de entrada inválidos',
+          401: 'Credenciales incorrectas'
+        })
+      }
+    }
+  })
+
+  // Obtener el usuario autenticado
+  .use(authGuard)
+  .get('/me', async ({ userId }) => {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new NotFoundError('Usuario no encontrado', { id: userId });
+    }
+
+    return user.toObject();
+  }, {
+    detail: {
+      tags: ['Autenticación'],
+      summary: 'Obtener el usuario autenticado',
+      description: 'Devuelve los datos del usuario asociado al token de acceso',
+      responses: {
+        200: jsonResponse('Usuario autenticado', ref('User')),
+        ...errorResponses({ 401: 'Token ausente, no válido o expirado' })
+      }
+    }
+  });
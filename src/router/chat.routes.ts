@@ -1,243 +1,736 @@
 import Elysia from 'elysia';
-import { z } from 'zod';
-import { Chat, chatValidationSchema, type ChatInput } from '../schema/chat';
+import type { ClientSession } from 'mongoose';
+import {
+  Chat,
+  chatExportQuerySchema,
+  chatInboxQuerySchema,
+  chatListQuerySchema,
+  chatReadValidationSchema,
+  groupChatUpdateValidationSchema,
+  groupChatValidationSchema,
+  participantRoleValidationSchema,
+  participantValidationSchema
+} from '../schema/chat';
 import { Contact } from '../schema/contact';
+import { chatImportValidationSchema } from '../schema/chat-import';
+import { Message } from '../schema/message';
+import { User } from '../schema/user';
+import { paginateMessages } from '../utils/pagination';
+import { authGuard } from '../utils/auth';
+import { withTransaction } from '../utils/transaction';
+import { countUnread, markAsRead } from '../utils/receipts';
+import { chatHub } from '../utils/realtime';
+import { addSystemMessage, findOwnedContact, findOwnedContacts, findParticipant } from '../utils/groups';
+import { chatSegmentFilter } from '../utils/tags';
+import { webhookDispatcher } from '../utils/webhooks';
+import type { WebhookEvent } from '../schema/webhook';
+import { importWhatsAppChat, readExportFile } from '../utils/chat-import';
+import { createTranscript, type TranscriptMessage } from '../utils/transcript';
+import { attachmentDisposition, streamCursor } from '../utils/stream';
+import { ConflictError, NotFoundError, ValidationError, assertObjectId } from '../utils/errors';
+import { dataResponse, errorResponses, jsonBody, jsonResponse, listResponse, pathParameters, queryParameters, ref } from '../utils/openapi';
 
-// Tipos para respuestas de error
-type ErrorResponse = {
-  error: string;
-  details?: Record<string, unknown> | string | Array<{ field: string; message: string }>;
+type ChatFlags = {
+  isArchived?: boolean;
+  isPinned?: boolean;
 };
 
+// Handler común para archivar, desarchivar, fijar y desfijar chats
+// Con event se notifica a los webhooks si el chat cambia de estado
+const updateChatFlags = (flags: ChatFlags, successMessage: string, event?: WebhookEvent) =>
+  async ({ params, userId }: { params: { id: string }; userId: string }) => {
+    assertObjectId(params.id);
+
+    const chat = await Chat.findOne({ _id: params.id, userId });
+    if (!chat) {
+      throw new NotFoundError('Chat no encontrado', { id: params.id });
+    }
+
+    chat.set(flags);
+    const changed = chat.isModified('isArchived');
+    await chat.save();
+
+    if (event && changed) {
+      webhookDispatcher.emit(userId, event, chat.toObject());
+    }
+
+    return {
+      message: successMessage,
+      data: chat.toObject()
+    };
+  };
+
+// Busca un grupo del usuario; los chats directos no admiten cambios de participantes
+const findOwnedGroupChat = async (id: string, userId: string, session?: ClientSession) => {
+  assertObjectId(id);
+
+  const chat = await Chat.findOne({ _id: id, userId }).session(session ?? null);
+  if (!chat) {
+    throw new NotFoundError('Chat no encontrado', { id });
+  }
+  if (chat.type !== 'group') {
+    throw new ValidationError('La operación solo está disponible en los chats de grupo', { id });
+  }
+
+  return chat;
+};
+
+// Documentación común de las rutas de archivo y fijado
+const chatFlagsDetail = (summary: string, description: string) => ({
+  tags: ['Chats'],
+  summary,
+  description,
+  parameters: pathParameters({ id: 'ID del chat' }),
+  responses: {
+    200: dataResponse('Chat actualizado', ref('Chat')),
+    ...errorResponses({
+      400: 'ID no válido',
+      404: 'Chat no encontrado'
+    })
+  }
+});
+
 export const chatRouter = new Elysia({ prefix: '/chats' })
+  .use(authGuard)
+
 
+  // Obtener todos los chats (fijados primero)
+  .get('/', async ({ query, userId }) => {
+    const { archived, blocked, ...segment } = chatListQuerySchema.parse(query);
 
-  // Obtener todos los chats
-  .get('/', async ({ set }) => {
-    try {
-      const chats = await Chat.find()
-        .sort({ updatedAt: -1 })
-        .populate('contactId')
-        .populate('lastMessage');
-
-      return {
-        count: chats.length,
-        data: chats.map(chat => ({
-          ...chat.toObject(),
-          contact: chat.contactId,
-          contactId: undefined
-        }))
-      };
-    } catch (error) {
-      set.status = 500;
-      return {
-        error: 'Error al obtener los chats',
-        details: error instanceof Error ? error.message : 'Error desconocido'
-      };
+    const filter: Record<string, unknown> = { userId };
+    if (archived !== 'all') {
+      filter.isArchived = archived === 'true';
     }
+
+    // Los grupos no tienen contacto, así que nunca se consideran bloqueados
+    if (blocked !== 'all') {
+      filter.contactBlocked = blocked === 'true';
+    }
+
+    const segmentFilter = await chatSegmentFilter(userId, segment);
+    if (segmentFilter) {
+      Object.assign(filter, segmentFilter);
+    }
+
+    const chats = await Chat.find(filter)
+      .sort({ isPinned: -1, updatedAt: -1 })
+      .populate('contactId')
+      .populate('lastMessage');
+
+    return {
+      count: chats.length,
+      data: chats.map(chat => ({
+        ...chat.toObject(),
+        contact: chat.contactId,
+        contactId: undefined
+      }))
+    };
   }, {
     detail: {
       tags: ['Chats'],
       summary: 'Obtener todos los chats',
-      description: 'Obtiene la lista de todos los chats ordenados por fecha de actualización',
+      description: 'Obtiene la lista de chats con los fijados primero y el resto ordenados por fecha de actualización. Por defecto no incluye los archivados ni los de contactos bloqueados. Con tag, group o favorite solo devuelve los chats directos y grupos de los contactos que cumplen el filtro',
+      parameters: queryParameters(chatListQuerySchema),
       responses: {
-        200: {
-          description: 'Lista de chats',
-          content: {
-            'application/json': {
-              schema: {
-                type: 'object',
-                properties: {
-                  count: { type: 'number' },
-                  data: {
-                    type: 'array',
-                    items: {
-                      $ref: '#/components/schemas/Chat'
-                    }
-                  }
-                }
-              }
-            }
-          }
-        },
-        500: {
-          description: 'Error del servidor',
-          content: {
-            'application/json': {
-              schema: {
-                $ref: '#/components/schemas/Error'
-              }
+        200: listResponse('Lista de chats', ref('ChatWithContact')),
+        ...errorResponses({
+          400: 'Filtro no válido',
+          500: 'Error del servidor'
+        })
+      }
+    }
+  })
+
+  // Bandeja de entrada: resumen compacto de cada chat sin poblar referencias
+  .get('/inbox', async ({ query, userId }) => {
+    const { archived, blocked, order, page, limit } = chatInboxQuerySchema.parse(query);
+
+    const filter: Record<string, unknown> = { userId };
+    if (archived !== 'all') {
+      filter.isArchived = archived === 'true';
+    }
+    if (blocked !== 'all') {
+      filter.contactBlocked = blocked === 'true';
+    }
+
+    const direction = order === 'asc' ? 1 : -1;
+    const [chats, total] = await Promise.all([
+      Chat.find(filter)
+        .sort({ isPinned: -1, lastMessageAt: direction, createdAt: direction, _id: direction })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .select('type contactId contactName name avatarUrl lastMessage lastMessageAt lastMessagePreview lastMessageDirection unreadCount isPinned isArchived')
+        .lean(),
+      Chat.countDocuments(filter)
+    ]);
+
+    return {
+      count: chats.length,
+      total,
+      page,
+      limit,
+      data: chats.map(chat => ({
+        id: chat._id.toString(),
+        type: chat.type,
+        title: chat.type === 'group' ? chat.name : chat.contactName,
+        avatarUrl: chat.avatarUrl,
+        contactId: chat.contactId,
+        lastMessage: chat.lastMessage && chat.lastMessageAt
+          ? {
+              id: chat.lastMessage,
+              preview: chat.lastMessagePreview ?? '',
+              direction: chat.lastMessageDirection,
+              timestamp: chat.lastMessageAt
             }
-          }
-        }
+          : null,
+        unreadCount: chat.unreadCount,
+        isPinned: chat.isPinned,
+        isArchived: chat.isArchived
+      }))
+    };
+  }, {
+    detail: {
+      tags: ['Chats'],
+      summary: 'Bandeja de entrada',
+      description: 'Devuelve un resumen por chat (nombre, vista previa del último mensaje, no leídos y marcas) a partir de los campos que se mantienen al enviar, editar y eliminar mensajes. Los fijados van primero y el resto se ordena por la fecha del último mensaje. Con los mismos filtros archived y blocked que GET /chats',
+      parameters: queryParameters(chatInboxQuerySchema),
+      responses: {
+        200: jsonResponse('Página de la bandeja de entrada', ref('ChatInbox')),
+        ...errorResponses({
+          400: 'Parámetros no válidos',
+          500: 'Error del servidor'
+        })
       }
     }
   })
 
   // Obtener un chat por ID
-  .get('/:id', async ({ params, set }) => {
-    try {
-      const chat = await Chat.findById(params.id)
-        .populate('contactId')
-        .populate('lastMessage')
-        .populate({
-          path: 'messageIds',
-          options: { sort: { createdAt: -1 }, limit: 50 }
-        });
-
-      if (!chat) {
-        set.status = 404;
-        return {
-          error: 'Chat no encontrado',
-          details: { id: params.id }
-        };
-      }
-
-      // Resetear contador de mensajes no leídos
-      if (chat.unreadCount > 0) {
-        chat.unreadCount = 0;
-        await chat.save();
-      }
-
-      return {
-        ...chat.toObject(),
-        contact: chat.contactId,
-        contactId: undefined
-      };
-    } catch (error) {
-      set.status = 500;
-      return {
-        error: 'Error al obtener el chat',
-        details: error instanceof Error ? error.message : 'Error desconocido'
-      };
+  .get('/:id', async ({ params, userId }) => {
+    assertObjectId(params.id);
+
+    const chat = await Chat.findOne({ _id: params.id, userId })
+      .populate('contactId')
+      .populate('lastMessage');
+
+    if (!chat) {
+      throw new NotFoundError('Chat no encontrado', { id: params.id });
     }
+
+    // Primera página del historial; el resto se obtiene con GET /messages/chat/:chatId
+    const { messages, nextCursor, prevCursor } = await paginateMessages(params.id, {
+      position: null,
+      direction: 'before',
+      limit: 50,
+      viewerId: userId
+    });
+
+    return {
+      ...chat.toObject(),
+      contact: chat.contactId,
+      contactId: undefined,
+      messages: {
+        data: messages.map(msg => msg.toObject()),
+        nextCursor,
+        prevCursor
+      }
+    };
   }, {
     detail: {
       tags: ['Chats'],
       summary: 'Obtener un chat por ID',
-      description: 'Obtiene los detalles de un chat específico por su ID',
+      description: 'Obtiene los detalles de un chat específico por su ID junto con la primera página de mensajes (los 50 más recientes). Use `prevCursor` con GET /messages/chat/{chatId} para cargar mensajes anteriores',
+      parameters: pathParameters({ id: 'ID del chat a obtener' }),
+      responses: {
+        200: jsonResponse('Detalles del chat', ref('ChatDetail')),
+        ...errorResponses({
+          400: 'ID no válido',
+          404: 'Chat no encontrado',
+          500: 'Error del servidor'
+        })
+      }
+    }
+  })
+
+  // Exportar la conversación completa
+  .get('/:id/export', async ({ params, query, userId }) => {
+    assertObjectId(params.id);
+    const { format } = chatExportQuerySchema.parse(query);
+
+    const chat = await Chat.findOne({ _id: params.id, userId });
+    if (!chat) {
+      throw new NotFoundError('Chat no encontrado', { id: params.id });
+    }
+
+    // Nombres de los remitentes: el usuario y los contactos que han escrito en el chat
+    const [user, senderIds] = await Promise.all([
+      User.findById(userId).select('name'),
+      Message.distinct('senderId', { chatId: chat._id, direction: 'incoming' })
+    ]);
+    const contacts = await Contact.find({ _id: { $in: [...senderIds, chat.contactId] }, userId }).select('name');
+    const senderNames = new Map(contacts.map(contact => [contact._id.toString(), contact.name]));
+    senderNames.set(userId, user?.name ?? 'Usuario');
+
+    const title = chat.type === 'group'
+      ? `Grupo ${chat.name}`
+      : `Chat con ${senderNames.get(chat.contactId!.toString()) ?? 'contacto eliminado'}`;
+
+    const transcript = createTranscript(format, {
+      chatId: chat._id.toString(),
+      title,
+      senderNames,
+      exportedAt: new Date()
+    });
+
+    // Los mensajes se leen con un cursor para no cargar todo el historial en memoria
+    const cursor = Message.find({ chatId: chat._id, hiddenFor: { $ne: userId } })
+      .sort({ timestamp: 1, _id: 1 })
+      .select('type direction senderId content attachments editedAt deletedAt timestamp')
+      .lean<TranscriptMessage>()
+      .cursor();
+
+    return new Response(streamCursor(cursor, transcript.serialize, transcript), {
+      headers: {
+        'Content-Type': transcript.contentType,
+        'Content-Disposition': attachmentDisposition(`chat-${chat._id}.${transcript.extension}`)
+      }
+    });
+  }, {
+    detail: {
+      tags: ['Chats'],
+      summary: 'Exportar una conversación',
+      description: 'Descarga todos los mensajes visibles del chat en orden cronológico con el nombre del remitente y la fecha formateada, como JSON, texto plano o HTML. La respuesta se envía en streaming',
       parameters: [
-        {
-          name: 'id',
-          in: 'path',
-          required: true,
-          description: 'ID del chat a obtener',
-          schema: { type: 'string' }
-        }
+        ...pathParameters({ id: 'ID del chat a exportar' }),
+        ...queryParameters(chatExportQuerySchema)
       ],
       responses: {
         200: {
-          description: 'Detalles del chat',
+          description: 'Transcripción de la conversación',
           content: {
-            'application/json': {
-              schema: {
-                $ref: '#/components/schemas/Chat'
-              }
-            }
+            'application/json': { schema: { type: 'object' } },
+            'text/plain': { schema: { type: 'string' } },
+            'text/html': { schema: { type: 'string' } }
           }
         },
-        404: {
-          description: 'Chat no encontrado',
-          content: {
-            'application/json': {
-              schema: {
-                $ref: '#/components/schemas/Error'
-              }
-            }
-          }
-        },
-        500: {
-          description: 'Error del servidor',
-          content: {
-            'application/json': {
-              schema: {
-                $ref: '#/components/schemas/Error'
-              }
+        ...errorResponses({
+          400: 'ID o formato no válido',
+          404: 'Chat no encontrado'
+        })
+      }
+    }
+  })
+
+  // Marcar como leídos los mensajes del contacto
+  .post('/:id/read', async ({ params, body, userId }) => {
+    assertObjectId(params.id);
+    const { upTo } = chatReadValidationSchema.parse(body ?? {});
+
+    const chat = await Chat.findOne({ _id: params.id, userId });
+    if (!chat) {
+      throw new NotFoundError('Chat no encontrado', { id: params.id });
+    }
+
+    let position = null;
+    if (upTo) {
+      assertObjectId(upTo, 'upTo');
+      const message = await Message.findOne({ _id: upTo, chatId: chat._id }).select('timestamp');
+      if (!message) {
+        throw new NotFoundError('Mensaje no encontrado en el chat', { upTo });
+      }
+      position = { timestamp: message.timestamp, id: message._id };
+    }
+
+    const readAt = new Date();
+    const messageIds = await markAsRead(chat._id, userId, position, readAt);
+
+    chat.unreadCount = await countUnread(chat._id, userId);
+    await chat.save();
+
+    if (messageIds.length > 0) {
+      chatHub.publish(chat._id.toString(), 'message.status', {
+        messageIds: messageIds.map(id => id.toString()),
+        status: 'read',
+        readAt
+      });
+    }
+
+    return {
+      message: 'Mensajes marcados como leídos',
+      data: {
+        chatId: chat._id.toString(),
+        updated: messageIds.length,
+        unreadCount: chat.unreadCount
+      }
+    };
+  }, {
+    detail: {
+      tags: ['Chats'],
+      summary: 'Marcar mensajes como leídos',
+      description: 'Marca como leídos los mensajes del contacto hasta el mensaje `upTo` (incluido), o todos si se omite, y recalcula el contador de no leídos del chat',
+      parameters: pathParameters({ id: 'ID del chat' }),
+      requestBody: jsonBody(ref('ChatReadInput'), false),
+      responses: {
+        200: dataResponse('Mensajes marcados como leídos', ref('ChatReadResult')),
+        ...errorResponses({
+          400: 'Datos de entrada inválidos',
+          404: 'Chat o mensaje no encontrado'
+        })
+      }
+    }
+  })
+
+  // Archivar un chat (deja de estar fijado)
+  .post('/:id/archive', updateChatFlags(
+    { isArchived: true, isPinned: false },
+    'Chat archivado exitosamente',
+    'chat.archived'
+  ), {
+    detail: chatFlagsDetail(
+      'Archivar un chat',
+      'Marca el chat como archivado y lo desfija. Se desarchiva automáticamente al recibir un mensaje del contacto'
+    )
+  })
+
+  // Desarchivar un chat
+  .post('/:id/unarchive', updateChatFlags(
+    { isArchived: false },
+    'Chat desarchivado exitosamente',
+    'chat.unarchived'
+  ), {
+    detail: chatFlagsDetail('Desarchivar un chat', 'Devuelve el chat a la bandeja principal')
+  })
+
+  // Fijar un chat
+  .post('/:id/pin', updateChatFlags(
+    { isPinned: true },
+    'Chat fijado exitosamente'
+  ), {
+    detail: chatFlagsDetail('Fijar un chat', 'Fija el chat para que aparezca antes que el resto en el listado')
+  })
+
+  // Desfijar un chat
+  .post('/:id/unpin', updateChatFlags(
+    { isPinned: false },
+    'Chat desfijado exitosamente'
+  ), {
+    detail: chatFlagsDetail('Desfijar un chat', 'Quita el chat de los fijados')
+  })
+
+  // Crear un chat de grupo
+  .post('/', async ({ body, set, userId }) => {
+    const { name, avatarUrl, participants } = groupChatValidationSchema.parse(body);
+
+    const contactIds = [...new Set(participants)];
+    contactIds.forEach(id => assertObjectId(id, 'participants'));
+    await findOwnedContacts(contactIds, userId);
+
+    // El grupo y su mensaje del sistema se guardan juntos. Los documentos se
+    // construyen dentro de la transacción por si esta se reintenta
+    const chat = await withTransaction(async session => {
+      const chat = new Chat({
+        userId,
+        type: 'group',
+        name,
+        avatarUrl: avatarUrl ?? null,
+        participants: contactIds.map(contactId => ({ contactId, role: 'member' }))
+      });
+      await chat.save({ session });
+
+      return addSystemMessage(chat, userId, { action: 'group.created' }, `Grupo «${name}» creado`, session);
+    });
+
+    set.status = 201;
+    return {
+      message: 'Grupo creado exitosamente',
+      data: chat.toObject()
+    };
+  }, {
+    detail: {
+      tags: ['Chats'],
+      summary: 'Crear un grupo',
+      description: 'Crea un chat de grupo con los contactos indicados como participantes. Los chats directos se crean automáticamente al crear un contacto',
+      requestBody: jsonBody(ref('GroupChatInput')),
+      responses: {
+        201: dataResponse('Grupo creado exitosamente', ref('Chat')),
+        ...errorResponses({
+          400: 'Datos de entrada inválidos',
+          404: 'Contacto no encontrado'
+        })
+      }
+    }
+  })
+
+  // Importar una conversación exportada de WhatsApp
+  .post('/import', async ({ body, set, userId }) => {
+    const options = chatImportValidationSchema.parse(body);
+    const text = await readExportFile(body);
+
+    const result = await importWhatsAppChat(userId, text, options);
+
+    set.status = 201;
+    return {
+      message: 'Conversación importada exitosamente',
+      data: result
+    };
+  }, {
+    detail: {
+      tags: ['Chats'],
+      summary: 'Importar una conversación de WhatsApp',
+      description: 'Importa un fichero .txt exportado desde WhatsApp conservando la fecha de cada mensaje. Los mensajes del usuario (`ownerName`) se importan como outgoing y los del resto de autores como incoming de su contacto, que se crea si se indican sus datos en `authors`. Con un único contacto los mensajes se añaden a su chat; con varios se crea un grupo',
+      requestBody: {
+        required: true,
+        content: {
+          'multipart/form-data': {
+            schema: {
+              allOf: [
+                ref('ChatImportInput'),
+                {
+                  type: 'object',
+                  properties: {
+                    file: { type: 'string', format: 'binary', description: 'Exportación de WhatsApp (.txt)' }
+                  },
+                  required: ['file']
+                }
+              ]
             }
           }
         }
+      },
+      responses: {
+        201: dataResponse('Conversación importada exitosamente', ref('ChatImportResult')),
+        ...errorResponses({
+          400: 'Fichero u opciones no válidos, o autores sin contacto asignado',
+          404: 'Contacto no encontrado'
+        })
+      }
+    }
+  })
+
+  // Cambiar el nombre o la imagen de un grupo
+  .patch('/:id', async ({ params, body, userId }) => {
+    const { name, avatarUrl } = groupChatUpdateValidationSchema.parse(body);
+
+    const chat = await withTransaction(async session => {
+      let chat = await findOwnedGroupChat(params.id, userId, session);
+
+      const events: string[] = [];
+      if (name !== undefined && name !== chat.name) {
+        chat.name = name;
+        events.push(`El nombre del grupo ha cambiado a «${name}»`);
+      }
+      if (avatarUrl !== undefined && avatarUrl !== chat.avatarUrl) {
+        chat.avatarUrl = avatarUrl;
+        events.push('La imagen del grupo ha cambiado');
+      }
+      await chat.save({ session });
+
+      for (const content of events) {
+        chat = await addSystemMessage(chat, userId, { action: 'group.updated' }, content, session);
+      }
+      return chat;
+    });
+
+    return {
+      message: 'Grupo actualizado exitosamente',
+      data: chat.toObject()
+    };
+  }, {
+    detail: {
+      tags: ['Chats'],
+      summary: 'Editar un grupo',
+      description: 'Cambia el nombre o la imagen de un grupo. Cada cambio queda registrado como mensaje del sistema',
+      parameters: pathParameters({ id: 'ID del grupo' }),
+      requestBody: jsonBody(ref('GroupChatUpdateInput')),
+      responses: {
+        200: dataResponse('Grupo actualizado exitosamente', ref('Chat')),
+        ...errorResponses({
+          400: 'Datos de entrada inválidos o el chat no es un grupo',
+          404: 'Chat no encontrado'
+        })
+      }
+    }
+  })
+
+  // Añadir un participante a un grupo
+  .post('/:id/participants', async ({ params, body, set, userId }) => {
+    const { contactId, role } = participantValidationSchema.parse(body);
+    assertObjectId(contactId, 'contactId');
+    const contact = await findOwnedContact(contactId, userId);
+
+    const chat = await withTransaction(async session => {
+      const chat = await findOwnedGroupChat(params.id, userId, session);
+      if (findParticipant(chat, contact._id)) {
+        throw new ConflictError('El contacto ya participa en el grupo', { contactId });
+      }
+
+      chat.participants.push({ contactId: contact._id, role, joinedAt: new Date() });
+      await chat.save({ session });
+
+      return addSystemMessage(
+        chat,
+        userId,
+        { action: 'participant.added', contactId: contact._id, role },
+        `${contact.name} se ha unido al grupo`,
+        session
+      );
+    });
+
+    set.status = 201;
+    return {
+      message: 'Participante añadido exitosamente',
+      data: chat.toObject()
+    };
+  }, {
+    detail: {
+      tags: ['Chats'],
+      summary: 'Añadir un participante',
+      description: 'Añade un contacto del usuario al grupo con el rol indicado y registra el alta como mensaje del sistema',
+      parameters: pathParameters({ id: 'ID del grupo' }),
+      requestBody: jsonBody(ref('ParticipantInput')),
+      responses: {
+        201: dataResponse('Participante añadido exitosamente', ref('Chat')),
+        ...errorResponses({
+          400: 'Datos de entrada inválidos o el chat no es un grupo',
+          404: 'Chat o contacto no encontrado',
+          409: 'El contacto ya participa en el grupo'
+        })
+      }
+    }
+  })
+
+  // Cambiar el rol de un participante
+  .patch('/:id/participants/:contactId', async ({ params, body, userId }) => {
+    const { role } = participantRoleValidationSchema.parse(body);
+    assertObjectId(params.contactId, 'contactId');
+
+    const chat = await withTransaction(async session => {
+      const chat = await findOwnedGroupChat(params.id, userId, session);
+
+      const participant = findParticipant(chat, params.contactId);
+      if (!participant) {
+        throw new NotFoundError('El contacto no participa en el grupo', { contactId: params.contactId });
+      }
+      if (participant.role === role) {
+        return chat;
+      }
+
+      const contact = await findOwnedContact(params.contactId, userId);
+      participant.role = role;
+      chat.markModified('participants');
+      await chat.save({ session });
+
+      return addSystemMessage(
+        chat,
+        userId,
+        { action: 'participant.role_changed', contactId: contact._id, role },
+        role === 'admin'
+          ? `${contact.name} ahora es administrador del grupo`
+          : `${contact.name} ya no es administrador del grupo`,
+        session
+      );
+    });
+
+    return {
+      message: 'Rol del participante actualizado',
+      data: chat.toObject()
+    };
+  }, {
+    detail: {
+      tags: ['Chats'],
+      summary: 'Cambiar el rol de un participante',
+      description: 'Nombra o retira como administrador a un participante del grupo. Si ya tenía ese rol no se modifica',
+      parameters: pathParameters({ id: 'ID del grupo', contactId: 'ID del contacto participante' }),
+      requestBody: jsonBody(ref('ParticipantRoleInput')),
+      responses: {
+        200: dataResponse('Rol del participante actualizado', ref('Chat')),
+        ...errorResponses({
+          400: 'Datos de entrada inválidos o el chat no es un grupo',
+          404: 'Chat no encontrado o el contacto no participa en el grupo'
+        })
+      }
+    }
+  })
+
+  // Quitar un participante de un grupo
+  .delete('/:id/participants/:contactId', async ({ params, userId }) => {
+    assertObjectId(params.contactId, 'contactId');
+
+    const chat = await withTransaction(async session => {
+      const chat = await findOwnedGroupChat(params.id, userId, session);
+
+      const participant = findParticipant(chat, params.contactId);
+      if (!participant) {
+        throw new NotFoundError('El contacto no participa en el grupo', { contactId: params.contactId });
+      }
+      if (chat.participants.length === 1) {
+        throw new ConflictError('El grupo debe tener al menos un participante', { contactId: params.contactId });
+      }
+
+      const contact = await findOwnedContact(params.contactId, userId);
+      chat.participants = chat.participants.filter(p => p !== participant);
+      await chat.save({ session });
+
+      return addSystemMessage(
+        chat,
+        userId,
+        { action: 'participant.removed', contactId: contact._id },
+        `${contact.name} ya no participa en el grupo`,
+        session
+      );
+    });
+
+    return {
+      message: 'Participante eliminado exitosamente',
+      data: chat.toObject()
+    };
+  }, {
+    detail: {
+      tags: ['Chats'],
+      summary: 'Quitar un participante',
+      description: 'Quita a un contacto del grupo y registra la baja como mensaje del sistema. Sus mensajes anteriores se conservan en el historial',
+      parameters: pathParameters({ id: 'ID del grupo', contactId: 'ID del contacto participante' }),
+      responses: {
+        200: dataResponse('Participante eliminado exitosamente', ref('Chat')),
+        ...errorResponses({
+          400: 'ID no válido o el chat no es un grupo',
+          404: 'Chat no encontrado o el contacto no participa en el grupo',
+          409: 'Es el último participante del grupo'
+        })
       }
     }
   })
 
   // Eliminar un chat
-  .delete('/:id', async ({ params, set }) => {
-    try {
-      const chat = await Chat.findByIdAndDelete(params.id);
-      
-      if (!chat) {
-        set.status = 404;
-        return {
-          error: 'Chat no encontrado',
-          details: { id: params.id }
-        };
-      }
-
-      // Opcional: Aquí podrías también eliminar los mensajes asociados
-      // await Message.deleteMany({ _id: { $in: chat.messageIds } });
-
-      return {
-        message: 'Chat eliminado exitosamente',
-        data: chat.toObject()
-      };
-    } catch (error) {
-      set.status = 500;
-      return {
-        error: 'Error al eliminar el chat',
-        details: error instanceof Error ? error.message : 'Error desconocido'
-      };
+  .delete('/:id', async ({ params, userId }) => {
+    assertObjectId(params.id);
+
+    // Elimina también sus mensajes (ver middleware de Chat)
+    const chat = await withTransaction(session =>
+      Chat.findOneAndDelete({ _id: params.id, userId }, { session })
+    );
+
+    if (!chat) {
+      throw new NotFoundError('Chat no encontrado', { id: params.id });
     }
+
+    return {
+      message: 'Chat eliminado exitosamente',
+      data: chat.toObject()
+    };
   }, {
     detail: {
       tags: ['Chats'],
       summary: 'Eliminar un chat',
-      description: 'Elimina un chat y opcionalmente sus mensajes asociados',
-      parameters: [
-        {
-          name: 'id',
-          in: 'path',
-          required: true,
-          description: 'ID del chat a eliminar',
-          schema: { type: 'string' }
-        }
-      ],
+      description: 'Elimina un chat y todos sus mensajes',
+      parameters: pathParameters({ id: 'ID del chat a eliminar' }),
       responses: {
-        200: {
-          description: 'Chat eliminado exitosamente',
-          content: {
-            'application/json': {
-              schema: {
-                type: 'object',
-                properties: {
-                  message: { type: 'string' },
-                  data: {
-                    $ref: '#/components/schemas/Chat'
-                  }
-                }
-              }
-            }
-          }
-        },
-        404: {
-          description: 'Chat no encontrado',
-          content: {
-            'application/json': {
-              schema: {
-                $ref: '#/components/schemas/Error'
-              }
-            }
-          }
-        },
-        500: {
-          description: 'Error del servidor',
-          content: {
-            'application/json': {
-              schema: {
-                $ref: '#/components/schemas/Error'
-              }
-            }
-          }
-        }
+        200: dataResponse('Chat eliminado exitosamente', ref('Chat')),
+        ...errorResponses({
+          400: 'ID no válido',
+          404: 'Chat no encontrado',
+          500: 'Error del servidor'
+        })
       }
     }
   });
@@ -0,0 +1,117 @@
+import Elysia from 'elysia';
+import {
+  ContactGroup,
+  contactGroupUpdateValidationSchema,
+  contactGroupValidationSchema
+} from '../schema/contact-group';
+import { authGuard } from '../utils/auth';
+import { contactGroupLabels } from '../utils/labels';
+import { dataResponse, errorResponses, jsonBody, listResponse, pathParameters, ref } from '../utils/openapi';
+
+export const contactGroupRouter = new Elysia({ prefix: '/contact-groups' })
+  .use(authGuard)
+
+  // Listar los grupos con el número de contactos de cada uno
+  .get('/', async ({ userId }) => {
+    const groups = await contactGroupLabels.listWithCounts(userId);
+    return { count: groups.length, data: groups };
+  }, {
+    detail: {
+      tags: ['Grupos de contactos'],
+      summary: 'Obtener los grupos de contactos',
+      description: 'Lista los grupos de contactos del usuario ordenados por nombre, con cuántos contactos tiene cada uno',
+      responses: {
+        200: listResponse('Lista de grupos de contactos', ref('ContactGroupWithCount')),
+        ...errorResponses({ 500: 'Error del servidor' })
+      }
+    }
+  })
+
+  // Crear un grupo
+  .post('/', async ({ body, set, userId }) => {
+    const data = contactGroupValidationSchema.parse(body);
+    await contactGroupLabels.assertNameAvailable(userId, data.name);
+
+    const group = await new ContactGroup({ ...data, userId }).save();
+
+    set.status = 201;
+    return {
+      message: 'Grupo de contactos creado exitosamente',
+      data: group.toObject()
+    };
+  }, {
+    detail: {
+      tags: ['Grupos de contactos'],
+      summary: 'Crear un grupo de contactos',
+      description: 'Crea un grupo para organizar contactos. Los contactos se añaden con PUT /contacts/:id/groups/:groupId. '
+        + 'El nombre es único sin distinguir mayúsculas ni tildes',
+      requestBody: jsonBody(ref('ContactGroupInput')),
+      responses: {
+        201: dataResponse('Grupo de contactos creado exitosamente', ref('ContactGroup')),
+        ...errorResponses({
+          400: 'Datos de entrada inválidos',
+          409: 'Ya existe un grupo de contactos con ese nombre'
+        })
+      }
+    }
+  })
+
+  // Renombrar o cambiar la descripción de un grupo
+  .patch('/:id', async ({ params, body, userId }) => {
+    const group = await contactGroupLabels.findOwned(params.id, userId);
+    const changes = contactGroupUpdateValidationSchema.parse(body);
+
+    if (changes.name !== undefined) {
+      await contactGroupLabels.assertNameAvailable(userId, changes.name, params.id);
+    }
+
+    group.set(changes);
+    await group.save();
+
+    return {
+      message: 'Grupo de contactos actualizado exitosamente',
+      data: group.toObject()
+    };
+  }, {
+    detail: {
+      tags: ['Grupos de contactos'],
+      summary: 'Actualizar un grupo de contactos',
+      description: 'Cambia el nombre o la descripción de un grupo. Sus contactos se mantienen',
+      parameters: pathParameters({ id: 'ID del grupo de contactos' }),
+      requestBody: jsonBody(ref('ContactGroupUpdateInput')),
+      responses: {
+        200: dataResponse('Grupo de contactos actualizado exitosamente', ref('ContactGroup')),
+        ...errorResponses({
+          400: 'Datos de entrada inválidos',
+          404: 'Grupo de contactos no encontrado',
+          409: 'Ya existe un grupo de contactos con ese nombre'
+        })
+      }
+    }
+  })
+
+  // Eliminar un grupo y sacar de él a sus contactos
+  .delete('/:id', async ({ params, userId }) => {
+    const group = await contactGroupLabels.findOwned(params.id, userId);
+
+    await contactGroupLabels.remove(group._id, userId);
+
+    return {
+      message: 'Grupo de contactos eliminado exitosamente',
+      data: group.toObject()
+    };
+  }, {
+    detail: {
+      tags: ['Grupos de contactos'],
+      summary: 'Eliminar un grupo de contactos',
+      description: 'Elimina el grupo. Sus contactos no se eliminan, solo dejan de pertenecer a él',
+      parameters: pathParameters({ id: 'ID del grupo de contactos' }),
+      responses: {
+        200: dataResponse('Grupo de contactos eliminado exitosamente', ref('ContactGroup')),
+        ...errorResponses({
+          400: 'ID no válido',
+          404: 'Grupo de contactos no encontrado'
+        })
+      }
+    }
+  });
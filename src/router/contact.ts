@@ -1,452 +1,542 @@
 import Elysia from "elysia";
-import { z } from "zod";
-import { Contact, contactValidationSchema, type ContactInput } from '../schema/contact';
+import {
+    Contact,
+    contactExportQuerySchema,
+    contactImportQuerySchema,
+    contactListQuerySchema,
+    contactUpdateValidationSchema,
+    contactValidationSchema,
+    type ContactInput
+} from '../schema/contact';
+import { authGuard } from '../utils/auth';
+import { withTransaction } from '../utils/transaction';
+import { ConflictError, NotFoundError, assertObjectId } from '../utils/errors';
+import { assertIfMatch, versionETag } from '../utils/etag';
+import { contactGroupLabels, tagLabels } from '../utils/labels';
+import { webhookDispatcher } from '../utils/webhooks';
+import {
+    dataResponse,
+    errorResponses,
+    headerParameters,
+    jsonBody,
+    jsonResponse,
+    listResponse,
+    pathParameters,
+    queryParameters,
+    ref
+} from '../utils/openapi';
+import { CONTACT_IMPORT_MAX_ROWS, detectFormat, importContacts, readImportFile } from '../utils/contact-import';
+import { toCsvRow } from '../utils/csv';
+import { paginateContacts } from '../utils/pagination';
+import { toVCard } from '../utils/vcard';
+import { attachmentDisposition, streamCursor } from '../utils/stream';
 
-// Tipos para respuestas de error
-type ErrorResponse = {
-    error: string;
-    details?: Record<string, unknown> | string | string[];
+// El correo debe ser único entre los contactos del usuario
+const assertEmailAvailable = async (userId: string, email: string, exceptId?: string) => {
+    const existingContact = await Contact.findOne({
+        userId,
+        email: email.toLowerCase(),
+        ...(exceptId && { _id: { $ne: exceptId } })
+    });
+    if (existingContact) {
+        throw new ConflictError('El correo electrónico ya está registrado', { email });
+    }
 };
 
-// Función para formatear errores de validación de Zod
-const formatZodError = (error: z.ZodError) => {
-    return error.errors.map(err => ({
-        field: err.path.join('.'),
-        message: err.message
-    }));
+const findOwnedContact = async (id: string, userId: string) => {
+    assertObjectId(id);
+
+    const contact = await Contact.findOne({ _id: id, userId })
+    if (!contact) {
+        throw new NotFoundError('Contacto no encontrado', { id })
+    }
+    return contact
 };
 
-const contactSchema = z.object({
-    name: z.string(),
-    email: z.string().email(),
-    phone: z.string().min(10).max(10)
-})
+type ContactFlags = { isFavorite?: boolean; isBlocked?: boolean };
+
+// Marca o desmarca un contacto como favorito o bloqueado
+const updateContactFlags = (flags: ContactFlags, successMessage: string) =>
+    async ({ params, set, userId }: { params: { id: string }; set: { headers: Record<string, string> }; userId: string }) => {
+        const contact = await findOwnedContact(params.id, userId)
+
+        contact.set(flags)
+        const changed = contact.isModified()
+        await contact.save()
+
+        if (changed) {
+            webhookDispatcher.emit(userId, 'contact.updated', contact.toObject())
+        }
+        set.headers['ETag'] = versionETag(contact.__v)
+        return {
+            message: successMessage,
+            data: contact.toObject()
+        }
+    };
+
+const contactFlagsDetail = (summary: string, successMessage: string, description?: string) => ({
+    tags: ['Contactos'],
+    summary,
+    ...(description && { description }),
+    parameters: pathParameters({ id: 'ID del contacto' }),
+    responses: {
+        200: dataResponse(successMessage, ref('Contact')),
+        ...errorResponses({
+            400: 'ID no válido',
+            404: 'Contacto no encontrado'
+        })
+    }
+});
+
+const ifMatchDetail = headerParameters({
+    'If-Match': 'ETag obtenido al leer el contacto. Si ha cambiado desde entonces se responde 412'
+});
 
 export const contactRouter = new Elysia({ prefix: '/contacts' })
+    .use(authGuard)
+
     // Crear un nuevo contacto
-    .post('/', async ({ body, set }) => {
-        try {
-            // Validar los datos de entrada
-            const contactData = contactValidationSchema.parse(body);
-
-            // Verificar si el correo ya existe
-            const existingContact = await Contact.findOne({ email: contactData.email });
-            if (existingContact) {
-                set.status = 409;
-                return {
-                    error: 'El correo electrónico ya está registrado',
-                    details: { email: contactData.email }
-                };
-            }
+    .post('/', async ({ body, set, userId }) => {
+        // Validar los datos de entrada
+        const contactData = contactValidationSchema.parse(body);
 
-            // Crear y guardar el nuevo contacto
-            const newContact = new Contact(contactData);
-            await newContact.save();
-
-            set.status = 201;
-            return {
-                message: 'Contacto creado exitosamente',
-                data: newContact.toObject()
-            };
-        } catch (error) {
-            set.status = 400;
-
-            if (error instanceof z.ZodError) {
-                return {
-                    error: 'Error de validación',
-                    details: formatZodError(error)
-                };
-            }
+        // Verificar si el correo ya existe
+        await assertEmailAvailable(userId, contactData.email);
 
-            return {
-                error: 'Error al crear el contacto',
-                details: error instanceof Error ? error.message : 'Error desconocido'
-            };
-        }
+        // Crear y guardar el nuevo contacto
+        const newContact = new Contact({ ...contactData, userId });
+        await newContact.save();
+        webhookDispatcher.emit(userId, 'contact.created', newContact.toObject());
+
+        set.status = 201;
+        set.headers['ETag'] = versionETag(newContact.__v);
+        return {
+            message: 'Contacto creado exitosamente',
+            data: newContact.toObject()
+        };
     }, {
         detail: {
             tags: ['Contactos'],
             summary: 'Crear un nuevo contacto',
             description: 'Crea un nuevo contacto en la base de datos',
+            requestBody: jsonBody(ref('ContactInput')),
+            responses: {
+                201: dataResponse('Contacto creado exitosamente', ref('Contact')),
+                ...errorResponses({
+                    400: 'Datos de entrada inválidos',
+                    409: 'El correo electrónico ya está registrado'
+                })
+            }
+        }
+    })
+
+    // Buscar y listar contactos paginados
+    .get('/', async ({ query, userId }) => {
+        const options = contactListQuerySchema.parse(query);
+        const { contacts, total, page, nextCursor } = await paginateContacts(userId, options);
+
+        return {
+            count: contacts.length,
+            total,
+            page,
+            limit: options.limit,
+            nextCursor,
+            data: contacts.map(contact => contact.toObject())
+        };
+    }, {
+        detail: {
+            tags: ['Contactos'],
+            summary: 'Buscar y listar contactos',
+            description: 'Devuelve una página de contactos. q busca por prefijo en el nombre, el correo o el teléfono; '
+                + 'tag, group y favorite segmentan por etiqueta, grupo de contactos o favoritos; sort y order eligen el orden (por defecto, '
+                + 'los más recientes primero). Se pagina con page o, '
+                + 'para listas largas, con el nextCursor de la respuesta anterior',
+            parameters: queryParameters(contactListQuerySchema),
+            responses: {
+                200: jsonResponse('Página de contactos', ref('ContactPage')),
+                ...errorResponses({ 400: 'Parámetros de búsqueda no válidos', 500: 'Error del servidor' })
+            }
+        }
+    })
+
+    // Importar contactos desde un fichero CSV o vCard
+    .post('/import', async ({ query, body, request, userId }) => {
+        const { format, upsert } = contactImportQuerySchema.parse(query);
+        const { text, fileName } = await readImportFile(body, request);
+
+        const report = await importContacts(userId, text, format ?? detectFormat(text, fileName), {
+            upsert: upsert === 'true'
+        });
+
+        return {
+            message: 'Importación completada',
+            data: report
+        };
+    }, {
+        detail: {
+            tags: ['Contactos'],
+            summary: 'Importar contactos',
+            description: `Importa contactos desde un fichero CSV (columnas name, email y phone) o vCard de hasta ${CONTACT_IMPORT_MAX_ROWS} registros. Cada registro se valida por separado: los no válidos y los correos repetidos se omiten y se informan en la respuesta`,
+            parameters: queryParameters(contactImportQuerySchema),
             requestBody: {
+                required: true,
                 content: {
-                    'application/json': {
+                    'multipart/form-data': {
                         schema: {
                             type: 'object',
                             properties: {
-                                name: { type: 'string', example: 'Juan Pérez' },
-                                email: { type: 'string', format: 'email', example: 'juan@example.com' },
-                                phone: { type: 'string', example: '1234567890' }
+                                file: { type: 'string', format: 'binary', description: 'Fichero .csv o .vcf' }
                             },
-                            required: ['name', 'email', 'phone']
+                            required: ['file']
                         }
+                    },
+                    'text/csv': {
+                        schema: { type: 'string', description: 'Contenido del fichero CSV' }
+                    },
+                    'text/vcard': {
+                        schema: { type: 'string', description: 'Contenido del fichero vCard' }
                     }
-                },
-                required: true
+                }
             },
             responses: {
-                201: {
-                    description: 'Contacto creado exitosamente',
-                    content: {
-                        'application/json': {
-                            schema: {
-                                type: 'object',
-                                properties: {
-                                    message: { type: 'string' },
-                                    data: {
-                                        type: 'object',
-                                        properties: {
-                                            _id: { type: 'string' },
-                                            name: { type: 'string' },
-                                            email: { type: 'string' },
-                                            phone: { type: 'string' },
-                                            chatId: { type: 'string' },
-                                            createdAt: { type: 'string', format: 'date-time' },
-                                            updatedAt: { type: 'string', format: 'date-time' }
-                                        }
-                                    }
-                                }
-                            }
-                        }
-                    }
-                },
-                400: {
-                    description: 'Datos de entrada inválidos',
-                    content: {
-                        'application/json': {
-                            schema: {
-                                type: 'object',
-                                properties: {
-                                    error: { type: 'string' },
-                                    details: { type: 'string' }
-                                }
-                            }
-                        }
-                    }
-                },
-                409: {
-                    description: 'El correo electrónico ya está registrado',
-                    content: {
-                        'application/json': {
-                            schema: {
-                                type: 'object',
-                                properties: {
-                                    error: { type: 'string' },
-                                    details: {
-                                        type: 'object',
-                                        properties: {
-                                            email: { type: 'string' }
-                                        }
-                                    }
-                                }
-                            }
-                        }
-                    }
-                }
+                200: dataResponse('Resultado de la importación', ref('ContactImportReport')),
+                ...errorResponses({ 400: 'Fichero o parámetros no válidos' })
             }
         }
     })
 
-    // Obtener todos los contactos
-    .get('/', async ({ set }) => {
-        try {
-            const contacts = await Contact.find().sort({ createdAt: -1 });
-            return {
-                count: contacts.length,
-                data: contacts.map(contact => contact.toObject())
-            };
-        } catch (error) {
-            set.status = 500;
-            return {
-                error: 'Error al obtener los contactos',
-                details: error instanceof Error ? error.message : error
-            };
+    // Listar los contactos bloqueados
+    .get('/blocked', async ({ userId }) => {
+        const contacts = await Contact.find({ userId, isBlocked: true }).sort({ blockedAt: -1 });
+        return {
+            count: contacts.length,
+            data: contacts.map(contact => contact.toObject())
+        };
+    }, {
+        detail: {
+            tags: ['Contactos'],
+            summary: 'Obtener los contactos bloqueados',
+            description: 'Devuelve los contactos bloqueados, los más recientes primero',
+            responses: {
+                200: listResponse('Lista de contactos bloqueados', ref('Contact')),
+                ...errorResponses({ 500: 'Error del servidor' })
+            }
         }
+    })
+
+    // Exportar todos los contactos en CSV o vCard
+    .get('/export', ({ query, userId }) => {
+        const { format } = contactExportQuerySchema.parse(query);
+        const cursor = Contact.find({ userId }).sort({ name: 1 }).cursor();
+
+        const stream = format === 'vcard'
+            ? streamCursor(cursor, contact => toVCard(contact))
+            : streamCursor(cursor, contact => toCsvRow([contact.name, contact.email, contact.phone]), {
+                header: toCsvRow(['name', 'email', 'phone'])
+            });
+
+        return new Response(stream, {
+            headers: {
+                'Content-Type': format === 'vcard' ? 'text/vcard; charset=utf-8' : 'text/csv; charset=utf-8',
+                'Content-Disposition': attachmentDisposition(format === 'vcard' ? 'contactos.vcf' : 'contactos.csv')
+            }
+        });
     }, {
         detail: {
             tags: ['Contactos'],
-            summary: 'Obtener todos los contactos',
-            description: 'Devuelve una lista de todos los contactos ordenados por fecha de creación',
+            summary: 'Exportar contactos',
+            description: 'Descarga todos los contactos ordenados por nombre. El CSV usa las mismas columnas que la importación',
+            parameters: queryParameters(contactExportQuerySchema),
             responses: {
                 200: {
-                    description: 'Lista de contactos',
+                    description: 'Fichero con los contactos',
                     content: {
-                        'application/json': {
-                            schema: {
-                                type: 'object',
-                                properties: {
-                                    count: { type: 'number' },
-                                    data: {
-                                        type: 'array',
-                                        items: {
-                                            type: 'object',
-                                            properties: {
-                                                _id: { type: 'string' },
-                                                name: { type: 'string' },
-                                                email: { type: 'string' },
-                                                phone: { type: 'string' },
-                                                chatId: { type: 'string' },
-                                                createdAt: { type: 'string', format: 'date-time' },
-                                                updatedAt: { type: 'string', format: 'date-time' }
-                                            }
-                                        }
-                                    }
-                                }
-                            }
-                        }
+                        'text/csv': { schema: { type: 'string' } },
+                        'text/vcard': { schema: { type: 'string' } }
                     }
                 },
-                500: {
-                    description: 'Error del servidor',
-                    content: {
-                        'application/json': {
-                            schema: {
-                                type: 'object',
-                                properties: {
-                                    error: { type: 'string' },
-                                    details: { type: 'string' }
-                                }
-                            }
-                        }
-                    }
-                }
+                ...errorResponses({ 400: 'Formato no válido' })
             }
         }
     })
 
     // Obtener un contacto por ID
-    .get('/:id', async ({ params }) => {
-        const contact = await Contact.findById(params.id)
+    .get('/:id', async ({ params, set, userId }) => {
+        const contact = await findOwnedContact(params.id, userId)
+
+        set.headers['ETag'] = versionETag(contact.__v)
         return contact
     }, {
         detail: {
             tags: ['Contactos'],
             summary: 'Obtener un contacto por ID',
-            description: 'Devuelve un contacto por su ID',
+            description: 'Devuelve un contacto por su ID. La cabecera ETag identifica su versión actual',
+            parameters: pathParameters({ id: 'ID del contacto' }),
             responses: {
-                200: {
-                    description: 'Contacto encontrado',
-                    content: {
-                        'application/json': {
-                            schema: {
-                                type: 'object',
-                                properties: {
-                                    _id: { type: 'string' },
-                                    name: { type: 'string' },
-                                    email: { type: 'string' },
-                                    phone: { type: 'string' },
-                                    chatId: { type: 'string' },
-                                    createdAt: { type: 'string', format: 'date-time' },
-                                    updatedAt: { type: 'string', format: 'date-time' }
-                                }
-                            }
-                        }
-                    }
-                },
-                404: {
-                    description: 'Contacto no encontrado',
-                    content: {
-                        'application/json': {
-                            schema: {
-                                type: 'object',
-                                properties: {
-                                    error: { type: 'string' },
-                                    details: { type: 'string' }
-                                }
-                            }
-                        }
-                    }
-                }
+                200: jsonResponse('Contacto encontrado', ref('Contact')),
+                ...errorResponses({
+                    400: 'ID no válido',
+                    404: 'Contacto no encontrado'
+                })
             }
         }
     })
 
     // Actualizar un contacto por ID
-    .put('/:id', async ({ params, body }) => {
+    .put('/:id', async ({ params, body, headers, set, userId }) => {
+        const contact = await findOwnedContact(params.id, userId)
+        assertIfMatch(headers['if-match'], versionETag(contact.__v))
         const bodyData = contactValidationSchema.parse(body)
-
-        const contact = await Contact.findById(params.id)
-        if (!contact) {
-            return {
-                error: 'Contacto no encontrado',
-                details: { id: params.id }
-            }
-        }
+        await assertEmailAvailable(userId, bodyData.email, params.id)
 
         contact.name = bodyData.name
         contact.email = bodyData.email
         contact.phone = bodyData.phone
         await contact.save()
+        webhookDispatcher.emit(userId, 'contact.updated', contact.toObject())
+
+        set.headers['ETag'] = versionETag(contact.__v)
         return contact
     }, {
         detail: {
             tags: ['Contactos'],
             summary: 'Actualizar un contacto por ID',
-            description: 'Actualiza un contacto por su ID',
-            requestBody: {
-                content: {
-                    'application/json': {
-                        schema: {
-                            type: 'object',
-                            properties: {
-                                name: { type: 'string', example: 'Juan Pérez' },
-                                email: { type: 'string', format: 'email', example: 'juan@example.com' },
-                                phone: { type: 'string', example: '1234567890' }
-                            },
-                            required: ['name', 'email', 'phone']
-                        }
-                    }
-                },
-                required: true
-            },
+            description: 'Sustituye todos los campos de un contacto. Para cambiar solo algunos, usar PATCH',
+            parameters: [...pathParameters({ id: 'ID del contacto' }), ...ifMatchDetail],
+            requestBody: jsonBody(ref('ContactInput')),
             responses: {
-                200: {
-                    description: 'Contacto actualizado exitosamente',
-                    content: {
-                        'application/json': {
-                            schema: {
-                                type: 'object',
-                                properties: {
-                                    _id: { type: 'string' },
-                                    name: { type: 'string' },
-                                    email: { type: 'string' },
-                                    phone: { type: 'string' },
-                                    chatId: { type: 'string' },
-                                    createdAt: { type: 'string', format: 'date-time' },
-                                    updatedAt: { type: 'string', format: 'date-time' }
-                                }
-                            }
-                        }
-                    }
-                },
-                400: {
-                    description: 'Datos de entrada inválidos',
-                    content: {
-                        'application/json': {
-                            schema: {
-                                type: 'object',
-                                properties: {
-                                    error: { type: 'string' },
-                                    details: {
-                                        type: 'array',
-                                        items: {
-                                            type: 'object',
-                                            properties: {
-                                                field: { type: 'string' },
-                                                message: { type: 'string' }
-                                            }
-                                        }
-                                    }
-                                }
-                            }
-                        }
-                    }
-                },
-                404: {
-                    description: 'Contacto no encontrado',
-                    content: {
-                        'application/json': {
-                            schema: {
-                                type: 'object',
-                                properties: {
-                                    error: { type: 'string' },
-                                    details: {
-                                        type: 'object',
-                                        properties: {
-                                            id: { type: 'string' }
-                                        }
-                                    }
-                                }
-                            }
-                        }
-                    }
-                },
-                409: {
-                    description: 'El correo electrónico ya está registrado',
-                    content: {
-                        'application/json': {
-                            schema: {
-                                type: 'object',
-                                properties: {
-                                    error: { type: 'string' },
-                                    details: {
-                                        type: 'object',
-                                        properties: {
-                                            email: { type: 'string' }
-                                        }
-                                    }
-                                }
-                            }
-                        }
-                    }
-                },
-                500: {
-                    description: 'Error del servidor',
-                    content: {
-                        'application/json': {
-                            schema: {
-                                type: 'object',
-                                properties: {
-                                    error: { type: 'string' },
-                                    details: { type: 'string' }
-                                }
-                            }
-                        }
-                    }
-                }
+                200: jsonResponse('Contacto actualizado exitosamente', ref('Contact')),
+                ...errorResponses({
+                    400: 'Datos de entrada inválidos',
+                    404: 'Contacto no encontrado',
+                    409: 'El correo electrónico ya está registrado o el contacto se modificó a la vez',
+                    412: 'El contacto ha cambiado desde que se obtuvo su ETag',
+                    500: 'Error del servidor'
+                })
+            }
+        }
+    })
+
+    // Actualizar parcialmente un contacto por ID
+    .patch('/:id', async ({ params, body, headers, set, userId }) => {
+        const contact = await findOwnedContact(params.id, userId)
+        assertIfMatch(headers['if-match'], versionETag(contact.__v))
+        const changes = contactUpdateValidationSchema.parse(body)
+
+        if (changes.email !== undefined) {
+            await assertEmailAvailable(userId, changes.email, params.id)
+        }
+
+        contact.set(changes)
+        await contact.save()
+        webhookDispatcher.emit(userId, 'contact.updated', contact.toObject())
+
+        set.headers['ETag'] = versionETag(contact.__v)
+        return {
+            message: 'Contacto actualizado exitosamente',
+            data: contact.toObject()
+        }
+    }, {
+        detail: {
+            tags: ['Contactos'],
+            summary: 'Actualizar parcialmente un contacto',
+            description: 'Modifica solo los campos indicados. Con If-Match la actualización solo se aplica si el '
+                + 'contacto no ha cambiado; la respuesta incluye el nuevo ETag',
+            parameters: [...pathParameters({ id: 'ID del contacto' }), ...ifMatchDetail],
+            requestBody: jsonBody(ref('ContactUpdateInput')),
+            responses: {
+                200: dataResponse('Contacto actualizado exitosamente', ref('Contact')),
+                ...errorResponses({
+                    400: 'Datos de entrada inválidos',
+                    404: 'Contacto no encontrado',
+                    409: 'El correo electrónico ya está registrado o el contacto se modificó a la vez',
+                    412: 'El contacto ha cambiado desde que se obtuvo su ETag'
+                })
+            }
+        }
+    })
+
+    // Favoritos
+    .post('/:id/favorite', updateContactFlags({ isFavorite: true }, 'Contacto marcado como favorito'), {
+        detail: contactFlagsDetail('Marcar un contacto como favorito', 'Contacto marcado como favorito')
+    })
+    .post('/:id/unfavorite', updateContactFlags({ isFavorite: false }, 'Contacto quitado de favoritos'), {
+        detail: contactFlagsDetail('Quitar un contacto de favoritos', 'Contacto quitado de favoritos')
+    })
+
+    // Bloqueos
+    .post('/:id/block', updateContactFlags({ isBlocked: true }, 'Contacto bloqueado'), {
+        detail: contactFlagsDetail(
+            'Bloquear un contacto',
+            'Contacto bloqueado',
+            'Se rechazan sus mensajes entrantes y su chat deja de aparecer en GET /chats salvo que se pida con blocked'
+        )
+    })
+    .post('/:id/unblock', updateContactFlags({ isBlocked: false }, 'Contacto desbloqueado'), {
+        detail: contactFlagsDetail('Desbloquear un contacto', 'Contacto desbloqueado')
+    })
+
+    // Asignar una etiqueta a un contacto
+    .put('/:id/tags/:tagId', async ({ params, set, userId }) => {
+        const contact = await findOwnedContact(params.id, userId)
+        const tag = await tagLabels.findOwned(params.tagId, userId)
+
+        if (!contact.tagIds.some(id => id.equals(tag._id))) {
+            contact.tagIds.push(tag._id)
+            await contact.save()
+            webhookDispatcher.emit(userId, 'contact.updated', contact.toObject())
+        }
+
+        set.headers['ETag'] = versionETag(contact.__v)
+        return {
+            message: 'Etiqueta asignada al contacto',
+            data: contact.toObject()
+        }
+    }, {
+        detail: {
+            tags: ['Contactos'],
+            summary: 'Asignar una etiqueta a un contacto',
+            description: 'Añade la etiqueta al contacto. Si ya la tenía no se modifica',
+            parameters: pathParameters({ id: 'ID del contacto', tagId: 'ID de la etiqueta' }),
+            responses: {
+                200: dataResponse('Etiqueta asignada al contacto', ref('Contact')),
+                ...errorResponses({
+                    400: 'ID no válido',
+                    404: 'Contacto o etiqueta no encontrados'
+                })
+            }
+        }
+    })
+
+    // Quitar una etiqueta de un contacto
+    .delete('/:id/tags/:tagId', async ({ params, set, userId }) => {
+        const contact = await findOwnedContact(params.id, userId)
+        assertObjectId(params.tagId, 'tagId')
+
+        const index = contact.tagIds.findIndex(id => id.equals(params.tagId))
+        if (index === -1) {
+            throw new NotFoundError('El contacto no tiene esa etiqueta', { tagId: params.tagId })
+        }
+
+        contact.tagIds.splice(index, 1)
+        await contact.save()
+        webhookDispatcher.emit(userId, 'contact.updated', contact.toObject())
+
+        set.headers['ETag'] = versionETag(contact.__v)
+        return {
+            message: 'Etiqueta quitada del contacto',
+            data: contact.toObject()
+        }
+    }, {
+        detail: {
+            tags: ['Contactos'],
+            summary: 'Quitar una etiqueta de un contacto',
+            parameters: pathParameters({ id: 'ID del contacto', tagId: 'ID de la etiqueta' }),
+            responses: {
+                200: dataResponse('Etiqueta quitada del contacto', ref('Contact')),
+                ...errorResponses({
+                    400: 'ID no válido',
+                    404: 'Contacto no encontrado o sin esa etiqueta'
+                })
+            }
+        }
+    })
+
+    // Añadir un contacto a un grupo
+    .put('/:id/groups/:groupId', async ({ params, set, userId }) => {
+        const contact = await findOwnedContact(params.id, userId)
+        const group = await contactGroupLabels.findOwned(params.groupId, userId)
+
+        if (!contact.groupIds.some(id => id.equals(group._id))) {
+            contact.groupIds.push(group._id)
+            await contact.save()
+            webhookDispatcher.emit(userId, 'contact.updated', contact.toObject())
+        }
+
+        set.headers['ETag'] = versionETag(contact.__v)
+        return {
+            message: 'Contacto añadido al grupo',
+            data: contact.toObject()
+        }
+    }, {
+        detail: {
+            tags: ['Contactos'],
+            summary: 'Añadir un contacto a un grupo',
+            description: 'Añade el contacto al grupo de contactos. Si ya pertenecía no se modifica',
+            parameters: pathParameters({ id: 'ID del contacto', groupId: 'ID del grupo de contactos' }),
+            responses: {
+                200: dataResponse('Contacto añadido al grupo', ref('Contact')),
+                ...errorResponses({
+                    400: 'ID no válido',
+                    404: 'Contacto o grupo de contactos no encontrados'
+                })
+            }
+        }
+    })
+
+    // Sacar un contacto de un grupo
+    .delete('/:id/groups/:groupId', async ({ params, set, userId }) => {
+        const contact = await findOwnedContact(params.id, userId)
+        assertObjectId(params.groupId, 'groupId')
+
+        const index = contact.groupIds.findIndex(id => id.equals(params.groupId))
+        if (index === -1) {
+            throw new NotFoundError('El contacto no pertenece a ese grupo', { groupId: params.groupId })
+        }
+
+        contact.groupIds.splice(index, 1)
+        await contact.save()
+        webhookDispatcher.emit(userId, 'contact.updated', contact.toObject())
+
+        set.headers['ETag'] = versionETag(contact.__v)
+        return {
+            message: 'Contacto quitado del grupo',
+            data: contact.toObject()
+        }
+    }, {
+        detail: {
+            tags: ['Contactos'],
+            summary: 'Sacar un contacto de un grupo',
+            parameters: pathParameters({ id: 'ID del contacto', groupId: 'ID del grupo de contactos' }),
+            responses: {
+                200: dataResponse('Contacto quitado del grupo', ref('Contact')),
+                ...errorResponses({
+                    400: 'ID no válido',
+                    404: 'Contacto no encontrado o fuera de ese grupo'
+                })
             }
         }
     })
 
     // Eliminar un contacto por ID
-    .delete('/:id', async ({ params }) => {
-        const contact = await Contact.findByIdAndDelete(params.id)
+    .delete('/:id', async ({ params, userId }) => {
+        assertObjectId(params.id);
+
+        // Elimina también su chat y mensajes (ver middleware de Contact y Chat)
+        const contact = await withTransaction(session =>
+            Contact.findOneAndDelete({ _id: params.id, userId }, { session })
+        )
         if (!contact) {
-            return {
-                error: 'Contacto no encontrado',
-                details: { id: params.id }
-            }
+            throw new NotFoundError('Contacto no encontrado', { id: params.id })
+        }
+        const data = contact.toObject()
+        webhookDispatcher.emit(userId, 'contact.deleted', data)
+        return {
+            message: 'Contacto eliminado exitosamente',
+            data
         }
-        return contact
     }, {
         detail: {
             tags: ['Contactos'],
             summary: 'Eliminar un contacto por ID',
-            description: 'Elimina un contacto por su ID',
+            description: 'Elimina un contacto por su ID junto con su chat y todos sus mensajes',
+            parameters: pathParameters({ id: 'ID del contacto' }),
             responses: {
-                200: {
-                    description: 'Contacto eliminado exitosamente',
-                    content: {
-                        'application/json': {
-                            schema: {
-                                type: 'object',
-                                properties: {
-                                    _id: { type: 'string' },
-                                    name: { type: 'string' },
-                                    email: { type: 'string' },
-                                    phone: { type: 'string' },
-                                    chatId: { type: 'string' },
-                                    createdAt: { type: 'string', format: 'date-time' },
-                                    updatedAt: { type: 'string', format: 'date-time' }
-                                }
-                            }
-                        }
-                    }
-                },
-                404: {
-                    description: 'Contacto no encontrado',
-                    content: {
-                        'application/json': {
-                            schema: {
-                                type: 'object',
-                                properties: {
-                                    error: { type: 'string' },
-                                    details: { type: 'string' }
-                                }
-                            }
-                        }
-                    }
-                }
+                200: dataResponse('Contacto eliminado exitosamente', ref('Contact')),
+                ...errorResponses({
+                    400: 'ID no válido',
+                    404: 'Contacto no encontrado'
+                })
             }
         }
     })    
\ No newline at end of file
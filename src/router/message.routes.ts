@@ -1,379 +1,608 @@
 import Elysia from 'elysia';
-import { Chat } from '../schema/chat';
-import { Message, messageValidationSchema } from '../schema/message';
+import mongoose from 'mongoose';
+import { Chat, type ChatDocument } from '../schema/chat';
+import { Contact } from '../schema/contact';
+import {
+  ScheduledMessage,
+  scheduledMessageListQuerySchema,
+  scheduledMessageUpdateValidationSchema
+} from '../schema/scheduled-message';
+import {
+  Message,
+  messageValidationSchema,
+  messagePageQuerySchema,
+  messageUpdateValidationSchema,
+  messageDeleteQuerySchema,
+  messageStatusValidationSchema,
+  type MessageDirection,
+  type MessageStatus
+} from '../schema/message';
+import { chatHub } from '../utils/realtime';
+import { SUMMARY_FIELDS, chatSummary, messagePreview, sendMessage } from '../utils/messages';
+import { webhookDispatcher } from '../utils/webhooks';
+import { paginateMessages, resolveMessageCursor } from '../utils/pagination';
+import { authGuard } from '../utils/auth';
+import { countUnread } from '../utils/receipts';
+import { findParticipant } from '../utils/groups';
+import {
+  ATTACHMENT_MAX_BYTES,
+  ATTACHMENT_MAX_FILES,
+  ATTACHMENT_MIME_TYPES,
+  collectFiles,
+  removeAttachments,
+  storeAttachment,
+  validateAttachments,
+  type AttachmentMetadata
+} from '../utils/attachments';
+import { storage } from '../utils/storage';
+import { attachmentDisposition } from '../utils/stream';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError, assertObjectId } from '../utils/errors';
+import {
+  dataResponse,
+  errorResponses,
+  jsonBody,
+  jsonResponse,
+  listResponse,
+  pathParameters,
+  queryParameters,
+  ref
+} from '../utils/openapi';
 
-// Tipos para respuestas de error
-type ErrorResponse = {
-  error: string;
-  details?: Record<string, unknown> | string | Array<{ field: string; message: string }>;
+// Busca un mensaje visible para el usuario junto con su chat
+const findOwnedMessage = async (id: string, userId: string) => {
+  assertObjectId(id);
+
+  const message = await Message.findOne({ _id: id, hiddenFor: { $ne: userId } });
+  const chat = message && await Chat.findOne({ _id: message.chatId, userId });
+  if (!message || !chat) {
+    throw new NotFoundError('Mensaje no encontrado', { id });
+  }
+
+  return { message, chat };
+};
+
+// Modifica un mensaje programado solo si sigue pendiente. La condición va en
+// la propia actualización para no competir con el dispatcher, que puede
+// reservarlo entre una lectura y una escritura
+const updatePendingScheduled = async (
+  id: string,
+  userId: string,
+  update: mongoose.UpdateQuery<mongoose.InferSchemaType<typeof ScheduledMessage.schema>>
+) => {
+  assertObjectId(id);
+
+  const scheduled = await ScheduledMessage.findOneAndUpdate(
+    { _id: id, userId, status: 'pending' },
+    update,
+    { new: true, runValidators: true }
+  );
+  if (scheduled) {
+    return scheduled;
+  }
+
+  const current = await ScheduledMessage.findOne({ _id: id, userId }).select('status');
+  if (!current) {
+    throw new NotFoundError('Mensaje programado no encontrado', { id });
+  }
+  throw new ConflictError('El mensaje programado ya no está pendiente', { id, status: current.status });
+};
+
+// Remitente de un mensaje nuevo según la dirección. En los grupos los
+// mensajes entrantes deben indicar qué participante los envía
+const resolveSenderId = (chat: ChatDocument, direction: MessageDirection, senderId?: string) => {
+  if (direction === 'incoming' && chat.type === 'group') {
+    if (!senderId) {
+      throw new ValidationError('En los grupos es obligatorio indicar el remitente de los mensajes entrantes', {
+        direction
+      });
+    }
+    const participant = findParticipant(chat, senderId);
+    if (!participant) {
+      throw new ValidationError('El remitente no participa en el grupo', { senderId });
+    }
+    return participant.contactId;
+  }
+
+  const expected = direction === 'incoming' ? chat.contactId! : chat.userId;
+  if (senderId && senderId !== expected.toString()) {
+    throw new ValidationError('El remitente no participa en el chat con esa dirección', {
+      senderId,
+      direction
+    });
+  }
+  return expected;
+};
+
+// Orden de los estados de entrega para impedir que retrocedan
+const STATUS_ORDER: Record<MessageStatus, number> = {
+  sent: 0,
+  delivered: 1,
+  read: 2
 };
 
 export const messageRouter = new Elysia({ prefix: '/messages' })
+  .use(authGuard)
+
   // Enviar un nuevo mensaje a un chat
-  .post('/', async ({ body, set }) => {
-    try {
-      // Validar los datos de entrada
-      const messageData = messageValidationSchema.parse(body);
-
-      // Verificar si el chat existe
-      const chat = await Chat.findById(messageData.chatId);
-      if (!chat) {
-        set.status = 404;
-        return {
-          error: 'Chat no encontrado',
-          details: { chatId: messageData.chatId }
-        };
+  .post('/', async ({ body, set, userId }) => {
+    // Validar los datos de entrada. Con multipart/form-data los ficheros
+    // llegan en el campo attachments
+    const messageData = messageValidationSchema.parse(body);
+    const files = collectFiles((body as Record<string, unknown>).attachments);
+    assertObjectId(messageData.chatId, 'chatId');
+
+    if (!messageData.content && files.length === 0) {
+      throw new ValidationError('El mensaje debe tener contenido o adjuntos', { field: 'content' });
+    }
+    validateAttachments(files);
+
+    // Verificar si el chat existe y pertenece al usuario
+    const chat = await Chat.findOne({ _id: messageData.chatId, userId });
+    if (!chat) {
+      throw new NotFoundError('Chat no encontrado', { chatId: messageData.chatId });
+    }
+
+    // El remitente debe ser el participante del chat que corresponde a la dirección
+    const senderId = resolveSenderId(chat, messageData.direction, messageData.senderId);
+
+    // Los contactos bloqueados no pueden enviar mensajes
+    if (messageData.direction === 'incoming' && await Contact.exists({ _id: senderId, isBlocked: true })) {
+      throw new ForbiddenError('El contacto está bloqueado y no puede enviar mensajes');
+    }
+
+    // Con sendAt el mensaje queda programado y lo envía el dispatcher al vencer
+    if (messageData.sendAt) {
+      if (messageData.direction !== 'outgoing' || files.length > 0 || !messageData.content) {
+        throw new ValidationError('Solo se pueden programar mensajes salientes de texto, sin adjuntos', {
+          field: 'sendAt'
+        });
       }
 
-      // Crear y guardar el nuevo mensaje
-      const newMessage = new Message({
-        ...messageData,
-        timestamp: messageData.timestamp || new Date()
-      });
-      
-      const savedMessage = await newMessage.save();
+      const scheduled = await new ScheduledMessage({
+        userId,
+        chatId: chat._id,
+        content: messageData.content,
+        sendAt: messageData.sendAt
+      }).save();
 
-      // Actualizar el chat con el nuevo mensaje
-      chat.messageIds.push(savedMessage._id);
-      chat.lastMessage = savedMessage._id;
-      chat.unreadCount += 1;
-      await chat.save();
+      set.status = 202;
+      return {
+        message: 'Mensaje programado exitosamente',
+        data: scheduled.toObject()
+      };
+    }
 
-      // No es necesario poblar ya que no hay referencias a otros modelos
+    // Guardar el mensaje con sus adjuntos y actualizar el chat en una transacción
+    const attachments: AttachmentMetadata[] = [];
+    try {
+      for (const file of files) {
+        attachments.push(await storeAttachment(chat._id.toString(), file));
+      }
+      const { message } = await sendMessage(chat._id, {
+        ...messageData,
+        senderId,
+        timestamp: messageData.timestamp || new Date(),
+        attachments
+      });
 
       set.status = 201;
       return {
         message: 'Mensaje enviado exitosamente',
-        data: savedMessage.toObject()
+        data: message.toObject()
       };
     } catch (error) {
-      set.status = 400;
-      return {
-        error: 'Error al enviar el mensaje',
-        details: error instanceof Error ? error.message : 'Error desconocido'
-      };
+      // No se dejan ficheros sin mensaje en el almacenamiento
+      await removeAttachments(attachments);
+      throw error;
     }
   }, {
     detail: {
       tags: ['Mensajes'],
       summary: 'Enviar un mensaje',
-      description: 'Envía un nuevo mensaje a un chat existente',
+      description: `Envía un nuevo mensaje a un chat existente. En los grupos, los mensajes entrantes deben indicar en \`senderId\` el participante que los envía. Para adjuntar ficheros se envía como multipart/form-data con hasta ${ATTACHMENT_MAX_FILES} ficheros de ${ATTACHMENT_MAX_BYTES} bytes como máximo en el campo \`attachments\``,
       requestBody: {
+        required: true,
         content: {
-          'application/json': {
+          'application/json': { schema: ref('MessageInput') },
+          'multipart/form-data': {
             schema: {
-              type: 'object',
-              properties: {
-                chatId: { 
-                  type: 'string',
-                  description: 'ID del chat al que pertenece el mensaje',
-                  example: '507f1f77bcf86cd799439011'
-                },
-                isContactMessage: { 
-                  type: 'boolean',
-                  description: 'Indica si el mensaje es del contacto (true) o del usuario (false)',
-                  example: true
-                },
-                content: {
-                  type: 'string',
-                  description: 'Contenido del mensaje',
-                  example: '¡Hola! ¿Cómo estás?'
-                },
-                timestamp: {
-                  type: 'string',
-                  format: 'date-time',
-                  description: 'Fecha y hora del mensaje (opcional, por defecto es ahora)',
-                  example: '2025-05-18T10:30:00.000Z'
-                }
-              },
-              required: ['chatId', 'content']
-            }
-          }
-        },
-        required: true
-      },
-      responses: {
-        201: {
-          description: 'Mensaje enviado exitosamente',
-          content: {
-            'application/json': {
-              schema: {
-                type: 'object',
-                properties: {
-                  message: { 
-                    type: 'string',
-                    example: 'Mensaje enviado exitosamente'
-                  },
-                  data: {
-                    type: 'object',
-                    properties: {
-                      _id: { 
-                        type: 'string',
-                        example: '507f1f77bcf86cd799439013'
-                      },
-                      chatId: { 
-                        type: 'string',
-                        example: '507f1f77bcf86cd799439011'
-                      },
-                      isContactMessage: { 
-                        type: 'boolean',
-                        example: true
-                      },
-                      content: {
-                        type: 'string',
-                        example: '¡Hola! ¿Cómo estás?'
-                      },
-                      timestamp: {
-                        type: 'string',
-                        format: 'date-time',
-                        example: '2025-05-18T10:30:00.000Z'
-                      },
-                      createdAt: { 
-                        type: 'string',
-                        format: 'date-time',
-                        example: '2025-05-18T10:30:00.000Z'
-                      },
-                      updatedAt: {
-                        type: 'string',
-                        format: 'date-time',
-                        example: '2025-05-18T10:30:00.000Z'
-                      }
-                    }
-                  }
-                },
-                required: ['message', 'data']
-              }
-            }
-          }
-        },
-        400: {
-          description: 'Datos de entrada inválidos',
-          content: {
-            'application/json': {
-              schema: {
-                type: 'object',
-                properties: {
-                  error: { 
-                    type: 'string',
-                    example: 'Error de validación'
-                  },
-                  details: {
-                    oneOf: [
-                      { type: 'string' },
-                      {
-                        type: 'array',
-                        items: {
-                          type: 'object',
-                          properties: {
-                            field: { type: 'string' },
-                            message: { type: 'string' }
-                          }
-                        }
-                      },
-                      { 
-                        type: 'object',
-                        additionalProperties: true
-                      }
-                    ]
-                  }
-                },
-                required: ['error']
-              }
-            }
-          }
-        },
-        404: {
-          description: 'Chat no encontrado',
-          content: {
-            'application/json': {
-              schema: {
-                type: 'object',
-                properties: {
-                  error: { 
-                    type: 'string',
-                    example: 'Chat no encontrado'
-                  },
-                  details: {
-                    type: 'object',
-                    properties: {
-                      chatId: { 
-                        type: 'string',
-                        example: '507f1f77bcf86cd799439011'
-                      }
+              allOf: [
+                ref('MessageInput'),
+                {
+                  type: 'object',
+                  properties: {
+                    attachments: {
+                      type: 'array',
+                      items: { type: 'string', format: 'binary' },
+                      description: `Ficheros de tipo ${ATTACHMENT_MIME_TYPES.join(', ')}`
                     }
                   }
-                },
-                required: ['error', 'details']
-              }
+                }
+              ]
             }
           }
         }
+      },
+      responses: {
+        201: dataResponse('Mensaje enviado exitosamente', ref('Message')),
+        202: dataResponse('Mensaje programado exitosamente (con sendAt)', ref('ScheduledMessage')),
+        ...errorResponses({
+          400: 'Datos de entrada inválidos o adjuntos no permitidos',
+          403: 'El remitente es un contacto bloqueado',
+          404: 'Chat no encontrado'
+        })
       }
     }
   })
 
-  // Obtener todos los mensajes de un chat
-  .get('/chat/:chatId', async ({ params, set }) => {
-    try {
-      const { chatId } = params;
-      
-      // Verificar si el chat existe
-      const chat = await Chat.findById(chatId);
-      if (!chat) {
-        set.status = 404;
-        return {
-          error: 'Chat no encontrado',
-          details: { chatId }
-        };
+  // Obtener los mensajes de un chat paginados por cursor
+  .get('/chat/:chatId', async ({ params, query, userId }) => {
+    const chatId = assertObjectId(params.chatId, 'chatId');
+    const { cursor, direction, limit } = messagePageQuerySchema.parse(query);
+    
+    // Verificar si el chat existe y pertenece al usuario
+    const chat = await Chat.exists({ _id: chatId, userId });
+    if (!chat) {
+      throw new NotFoundError('Chat no encontrado', { chatId });
+    }
+
+    const position = cursor ? await resolveMessageCursor(chatId, cursor) : null;
+    if (cursor && !position) {
+      throw new ValidationError('Cursor no válido', { cursor });
+    }
+
+    // Obtener la página de mensajes en orden cronológico ascendente
+    const { messages, nextCursor, prevCursor } = await paginateMessages(chatId, {
+      position,
+      direction,
+      limit,
+      viewerId: userId
+    });
+
+    return {
+      count: messages.length,
+      chatId,
+      data: messages.map(msg => msg.toObject()),
+      nextCursor,
+      prevCursor
+    };
+  }, {
+    detail: {
+      tags: ['Mensajes'],
+      summary: 'Obtener mensajes de un chat',
+      description: 'Obtiene una página de mensajes de un chat específico usando paginación por cursor. Los mensajes se devuelven en orden cronológico ascendente',
+      parameters: [
+        ...pathParameters({ chatId: 'ID del chat del que se desean obtener los mensajes' }),
+        ...queryParameters(messagePageQuerySchema)
+      ],
+      responses: {
+        200: jsonResponse('Página de mensajes del chat', ref('MessagePage')),
+        ...errorResponses({
+          400: 'Parámetros de paginación o cursor no válidos',
+          404: 'Chat no encontrado',
+          500: 'Error del servidor'
+        })
       }
+    }
+  })
 
-      // Obtener todos los mensajes del chat ordenados por fecha de creación
-      const messages = await Message.find({ chatId })
-        .sort({ createdAt: 1 }); // Orden ascendente por fecha de creación
+  // Confirmar la entrega o lectura de un mensaje enviado por el usuario
+  .patch('/:id/status', async ({ params, body, userId }) => {
+    const { status, at } = messageStatusValidationSchema.parse(body);
+    const { message, chat } = await findOwnedMessage(params.id, userId);
 
-      // Actualizar contador de mensajes no leídos
-      if (chat.unreadCount > 0) {
-        chat.unreadCount = 0;
-        await chat.save();
+    if (message.direction !== 'outgoing') {
+      throw new ValidationError('Solo se puede confirmar el estado de los mensajes enviados por el usuario', {
+        id: params.id,
+        direction: message.direction
+      });
+    }
+
+    // El estado solo avanza: sent → delivered → read
+    if (STATUS_ORDER[status] > STATUS_ORDER[message.status]) {
+      const changedAt = at || new Date();
+      message.status = status;
+      message.deliveredAt = message.deliveredAt ?? changedAt;
+      if (status === 'read') {
+        message.readAt = changedAt;
       }
+      await message.save();
 
-      return {
-        count: messages.length,
-        chatId,
-        data: messages.map(msg => msg.toObject())
-      };
-    } catch (error) {
-      set.status = 500;
-      return {
-        error: 'Error al obtener los mensajes',
-        details: error instanceof Error ? error.message : 'Error desconocido'
-      };
+      chatHub.publish(chat._id.toString(), 'message.status', {
+        messageIds: [message._id.toString()],
+        status: message.status,
+        deliveredAt: message.deliveredAt,
+        readAt: message.readAt
+      });
     }
+
+    return {
+      message: 'Estado del mensaje actualizado',
+      data: message.toObject()
+    };
   }, {
     detail: {
       tags: ['Mensajes'],
-      summary: 'Obtener mensajes de un chat',
-      description: 'Obtiene todos los mensajes de un chat específico',
+      summary: 'Confirmar entrega o lectura',
+      description: 'Registra que un mensaje enviado por el usuario ha sido entregado o leído por el contacto. El estado nunca retrocede; si ya estaba en ese estado o uno posterior no se modifica',
+      parameters: pathParameters({ id: 'ID del mensaje' }),
+      requestBody: jsonBody(ref('MessageStatusInput')),
+      responses: {
+        200: dataResponse('Estado del mensaje actualizado', ref('Message')),
+        ...errorResponses({
+          400: 'Datos de entrada inválidos o mensaje del contacto',
+          404: 'Mensaje no encontrado'
+        })
+      }
+    }
+  })
+
+  // Editar el contenido de un mensaje
+  .patch('/:id', async ({ params, body, userId }) => {
+    const { content } = messageUpdateValidationSchema.parse(body);
+    const { message, chat } = await findOwnedMessage(params.id, userId);
+
+    if (message.deletedAt) {
+      throw new ConflictError('No se puede editar un mensaje eliminado', { id: params.id });
+    }
+    if (message.type === 'system') {
+      throw new ConflictError('No se pueden editar los mensajes del sistema', { id: params.id });
+    }
+    if (message.direction !== 'outgoing') {
+      throw new ConflictError('Solo se pueden editar los mensajes enviados por el usuario', {
+        id: params.id,
+        direction: message.direction
+      });
+    }
+
+    // Se guarda la versión anterior antes de sustituir el contenido. Un
+    // mensaje que solo tenía adjuntos no tiene versión anterior que guardar
+    const editedAt = new Date();
+    if (message.content) {
+      message.editHistory.push({ content: message.content, editedAt });
+    }
+    message.content = content;
+    message.editedAt = editedAt;
+    await message.save();
+
+    const data = message.toObject();
+    chatHub.publish(chat._id.toString(), 'message.updated', data);
+    webhookDispatcher.emit(userId, 'message.updated', data);
+
+    // El resumen del chat muestra el contenido nuevo si sigue siendo su último
+    // mensaje. La condición va en el filtro para no pisar un envío posterior
+    const updatedChat = await Chat.findOneAndUpdate(
+      { _id: chat._id, lastMessage: message._id },
+      { $set: { lastMessagePreview: messagePreview(message) } },
+      { new: true }
+    );
+    if (updatedChat) {
+      chatHub.publish(chat._id.toString(), 'chat.updated', updatedChat.toObject());
+    }
+
+    return {
+      message: 'Mensaje editado exitosamente',
+      data
+    };
+  }, {
+    detail: {
+      tags: ['Mensajes'],
+      summary: 'Editar un mensaje',
+      description: 'Sustituye el contenido de un mensaje enviado por el usuario guardando la versión anterior en su historial de ediciones. Los mensajes recibidos del contacto no se pueden editar',
+      parameters: pathParameters({ id: 'ID del mensaje' }),
+      requestBody: jsonBody(ref('MessageUpdateInput')),
+      responses: {
+        200: dataResponse('Mensaje editado exitosamente', ref('Message')),
+        ...errorResponses({
+          400: 'Datos de entrada inválidos',
+          404: 'Mensaje no encontrado',
+          409: 'El mensaje ha sido eliminado, es del sistema o lo envió el contacto'
+        })
+      }
+    }
+  })
+
+  // Eliminar un mensaje solo para el usuario o para todos
+  .delete('/:id', async ({ params, query, userId }) => {
+    const { mode } = messageDeleteQuerySchema.parse(query);
+    const { message, chat } = await findOwnedMessage(params.id, userId);
+
+    let removedAttachments: { storageKey: string }[] = [];
+    if (mode === 'everyone') {
+      if (message.deletedAt) {
+        throw new ConflictError('El mensaje ya ha sido eliminado', { id: params.id });
+      }
+
+      // Lápida: se conserva el mensaje en el historial sin su contenido ni adjuntos
+      removedAttachments = message.attachments.map(({ storageKey }) => ({ storageKey }));
+      message.deletedAt = new Date();
+      message.content = '';
+      message.set('editHistory', []);
+      message.set('attachments', []);
+    } else {
+      message.hiddenFor.push(new mongoose.Types.ObjectId(userId));
+    }
+
+    await message.save();
+    await removeAttachments(removedAttachments);
+
+    // Un mensaje no leído eliminado deja de contar como pendiente
+    const counters = {
+      $set: { unreadCount: await countUnread(chat._id, userId) },
+      ...(mode === 'me' && { $inc: { messageCount: -1 } })
+    };
+
+    // Si era el último mensaje, el chat pasa a apuntar al anterior visible.
+    // Como en el envío, el resumen solo se sustituye si ningún mensaje
+    // posterior lo ha reemplazado entretanto
+    let updatedChat = null;
+    if (chat.lastMessage?.equals(message._id)) {
+      const previous = await Message.findOne({
+        chatId: chat._id,
+        deletedAt: null,
+        hiddenFor: { $ne: userId }
+      })
+        .sort({ timestamp: -1, _id: -1 })
+        .select(SUMMARY_FIELDS);
+
+      updatedChat = await Chat.findOneAndUpdate(
+        { _id: chat._id, lastMessage: message._id },
+        { ...counters, $set: { ...counters.$set, ...chatSummary(previous) } },
+        { new: true }
+      );
+    }
+    updatedChat ??= await Chat.findOneAndUpdate({ _id: chat._id }, counters, { new: true });
+    if (updatedChat) {
+      chatHub.publish(chat._id.toString(), 'chat.updated', updatedChat.toObject());
+    }
+
+    const data = message.toObject();
+    chatHub.publish(chat._id.toString(), 'message.deleted', data);
+    webhookDispatcher.emit(userId, 'message.deleted', { ...data, mode });
+
+    return {
+      message: 'Mensaje eliminado exitosamente',
+      data
+    };
+  }, {
+    detail: {
+      tags: ['Mensajes'],
+      summary: 'Eliminar un mensaje',
+      description: 'Con `mode=me` (por defecto) el mensaje se oculta solo para el usuario. Con `mode=everyone` el mensaje queda como lápida sin contenido en el historial. Si era el último mensaje del chat, `lastMessage` pasa a ser el anterior visible',
       parameters: [
-        {
-          name: 'chatId',
-          in: 'path',
-          required: true,
-          description: 'ID del chat del que se desean obtener los mensajes',
-          schema: { 
-            type: 'string',
-            example: '507f1f77bcf86cd799439011'
-          }
-        }
+        ...pathParameters({ id: 'ID del mensaje' }),
+        ...queryParameters(messageDeleteQuerySchema)
       ],
+      responses: {
+        200: dataResponse('Mensaje eliminado exitosamente', ref('Message')),
+        ...errorResponses({
+          400: 'Modo de borrado no válido',
+          404: 'Mensaje no encontrado',
+          409: 'El mensaje ya ha sido eliminado'
+        })
+      }
+    }
+  })
+
+  // Descargar un adjunto de un mensaje
+  .get('/:id/attachments/:attachmentId', async ({ params, userId }) => {
+    assertObjectId(params.attachmentId, 'attachmentId');
+    const { message } = await findOwnedMessage(params.id, userId);
+
+    const attachment = message.attachments.id(params.attachmentId);
+    const file = attachment && await storage.get(attachment.storageKey);
+    if (!attachment || !file) {
+      throw new NotFoundError('Adjunto no encontrado', { attachmentId: params.attachmentId });
+    }
+
+    return new Response(file, {
+      headers: {
+        'Content-Type': attachment.mimeType,
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Length': String(attachment.size),
+        'Content-Disposition': attachmentDisposition(attachment.fileName),
+        'ETag': `"${attachment.checksum}"`,
+        'Cache-Control': 'private, max-age=31536000, immutable'
+      }
+    });
+  }, {
+    detail: {
+      tags: ['Mensajes'],
+      summary: 'Descargar un adjunto',
+      description: 'Devuelve el fichero adjunto si el mensaje pertenece a un chat del usuario y no lo ha eliminado para sí mismo',
+      parameters: pathParameters({ id: 'ID del mensaje', attachmentId: 'ID del adjunto' }),
       responses: {
         200: {
-          description: 'Lista de mensajes del chat',
+          description: 'Contenido del fichero con su tipo MIME',
           content: {
-            'application/json': {
-              schema: {
-                type: 'object',
-                properties: {
-                  count: { 
-                    type: 'integer',
-                    example: 1
-                  },
-                  chatId: { 
-                    type: 'string',
-                    example: '507f1f77bcf86cd799439011'
-                  },
-                  data: {
-                    type: 'array',
-                    items: {
-                      type: 'object',
-                      properties: {
-                        _id: { 
-                          type: 'string',
-                          example: '507f1f77bcf86cd799439013'
-                        },
-                        chatId: { 
-                          type: 'string',
-                          example: '507f1f77bcf86cd799439011'
-                        },
-                        isContactMessage: {
-                          type: 'boolean',
-                          example: true
-                        },
-                        content: {
-                          type: 'string',
-                          example: '¡Hola! ¿Cómo estás?'
-                        },
-                        timestamp: {
-                          type: 'string',
-                          format: 'date-time',
-                          example: '2025-05-18T10:30:00.000Z'
-                        },
-                        createdAt: { 
-                          type: 'string',
-                          format: 'date-time',
-                          example: '2025-05-18T10:30:00.000Z'
-                        },
-                        updatedAt: {
-                          type: 'string',
-                          format: 'date-time',
-                          example: '2025-05-18T10:30:00.000Z'
-                        }
-                      }
-                    }
-                  }
-                },
-                required: ['count', 'chatId', 'data']
-              }
-            }
-          }
-        },
-        404: {
-          description: 'Chat no encontrado',
-          content: {
-            'application/json': {
-              schema: {
-                type: 'object',
-                properties: {
-                  error: { 
-                    type: 'string',
-                    example: 'Chat no encontrado'
-                  },
-                  details: {
-                    type: 'object',
-                    properties: {
-                      chatId: { 
-                        type: 'string',
-                        example: '507f1f77bcf86cd799439011'
-                      }
-                    }
-                  }
-                },
-                required: ['error', 'details']
-              }
+            'application/octet-stream': {
+              schema: { type: 'string', format: 'binary' }
             }
           }
         },
-        500: {
-          description: 'Error del servidor',
-          content: {
-            'application/json': {
-              schema: {
-                type: 'object',
-                properties: {
-                  error: { 
-                    type: 'string',
-                    example: 'Error al obtener los mensajes'
-                  },
-                  details: {
-                    type: 'string',
-                    example: 'Mensaje de error detallado'
-                  }
-                },
-                required: ['error', 'details']
-              }
-            }
-          }
-        }
+        ...errorResponses({
+          400: 'ID no válido',
+          404: 'Mensaje o adjunto no encontrado'
+        })
+      }
+    }
+  })
+
+  // Listar los mensajes programados
+  .get('/scheduled', async ({ query, userId }) => {
+    const { chatId, status } = scheduledMessageListQuerySchema.parse(query);
+
+    const scheduled = await ScheduledMessage.find({ userId, status, ...(chatId && { chatId }) })
+      .sort({ sendAt: 1 });
+
+    return {
+      count: scheduled.length,
+      data: scheduled.map(item => item.toObject())
+    };
+  }, {
+    detail: {
+      tags: ['Mensajes'],
+      summary: 'Obtener los mensajes programados',
+      description: 'Lista los mensajes programados del usuario por fecha de envío. Por defecto solo los pendientes',
+      parameters: queryParameters(scheduledMessageListQuerySchema),
+      responses: {
+        200: listResponse('Lista de mensajes programados', ref('ScheduledMessage')),
+        ...errorResponses({ 400: 'Filtro no válido' })
+      }
+    }
+  })
+
+  // Reprogramar un mensaje pendiente
+  .patch('/scheduled/:id', async ({ params, body, userId }) => {
+    const changes = scheduledMessageUpdateValidationSchema.parse(body);
+    // Con una fecha nueva se descarta la espera de un reintento anterior
+    const scheduled = await updatePendingScheduled(params.id, userId, {
+      $set: { ...changes, ...(changes.sendAt && { nextAttemptAt: null }) }
+    });
+
+    return {
+      message: 'Mensaje reprogramado exitosamente',
+      data: scheduled.toObject()
+    };
+  }, {
+    detail: {
+      tags: ['Mensajes'],
+      summary: 'Reprogramar un mensaje',
+      description: 'Cambia la fecha de envío o el contenido de un mensaje programado que aún no se ha enviado',
+      parameters: pathParameters({ id: 'ID del mensaje programado' }),
+      requestBody: jsonBody(ref('ScheduledMessageUpdateInput')),
+      responses: {
+        200: dataResponse('Mensaje reprogramado exitosamente', ref('ScheduledMessage')),
+        ...errorResponses({
+          400: 'Datos de entrada inválidos',
+          404: 'Mensaje programado no encontrado',
+          409: 'El mensaje ya se ha enviado o cancelado'
+        })
+      }
+    }
+  })
+
+  // Cancelar un mensaje pendiente
+  .delete('/scheduled/:id', async ({ params, userId }) => {
+    const scheduled = await updatePendingScheduled(params.id, userId, { $set: { status: 'cancelled' } });
+
+    return {
+      message: 'Mensaje programado cancelado',
+      data: scheduled.toObject()
+    };
+  }, {
+    detail: {
+      tags: ['Mensajes'],
+      summary: 'Cancelar un mensaje programado',
+      description: 'El mensaje no llega a enviarse. Queda en el listado con estado cancelled',
+      parameters: pathParameters({ id: 'ID del mensaje programado' }),
+      responses: {
+        200: dataResponse('Mensaje programado cancelado', ref('ScheduledMessage')),
+        ...errorResponses({
+          400: 'ID no válido',
+          404: 'Mensaje programado no encontrado',
+          409: 'El mensaje ya se ha enviado o cancelado'
+        })
       }
     }
   });
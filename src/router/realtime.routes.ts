@@ -0,0 +1,74 @@
+import Elysia from 'elysia';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { Chat } from '../schema/chat';
+import { chatHub } from '../utils/realtime';
+import { logger } from '../utils/logger';
+import { authGuard } from '../utils/auth';
+import { ValidationError, NotFoundError, formatZodError, toAppError } from '../utils/errors';
+
+// Mensajes que el cliente puede enviar por el socket
+const subscriptionSchema = z.object({
+  action: z.enum(['subscribe', 'unsubscribe']),
+  chatIds: z.array(z.string().min(1, 'El ID del chat no puede estar vacío'))
+    .min(1, 'Debe indicar al menos un chat')
+});
+
+export const realtimeRouter = new Elysia()
+  .use(authGuard)
+
+  // Canal WebSocket para recibir eventos de los chats suscritos.
+  // El cliente envía { "action": "subscribe", "chatIds": [...] } y recibe
+  // eventos { type, chatId, data } con type 'message.created' o 'chat.updated'.
+  // El token de acceso se envía en el parámetro ?token= de la URL
+  .ws('/ws', {
+    open(ws) {
+      logger.info('Cliente WebSocket conectado', { id: ws.id });
+    },
+
+    async message(ws, message) {
+      const parsed = subscriptionSchema.safeParse(message);
+      if (!parsed.success) {
+        const error = new ValidationError('Error de validación', formatZodError(parsed.error));
+        ws.send({ type: 'error', ...error.toResponse() });
+        return;
+      }
+
+      const { action, chatIds } = parsed.data;
+
+      if (action === 'unsubscribe') {
+        chatIds.forEach(chatId => chatHub.unsubscribe(ws.raw, chatId));
+        ws.send({ type: 'unsubscribed', chatIds });
+        return;
+      }
+
+      // Solo se permite suscribirse a chats existentes del usuario.
+      // Un fallo de la base de datos se responde por el socket: una promesa
+      // rechazada en este manejador no pasa por el onError de Elysia
+      try {
+        const validIds = chatIds.filter(id => mongoose.isValidObjectId(id));
+        const chats = await Chat.find({ _id: { $in: validIds }, userId: ws.data.userId }).select('_id');
+        const found = chats.map(chat => chat._id.toString());
+        const missing = chatIds.filter(id => !found.includes(id));
+
+        found.forEach(chatId => chatHub.subscribe(ws.raw, chatId));
+        ws.send({ type: 'subscribed', chatIds: found });
+
+        if (missing.length > 0) {
+          const error = new NotFoundError('Chat no encontrado', { chatIds: missing });
+          ws.send({ type: 'error', ...error.toResponse() });
+        }
+      } catch (err) {
+        const error = toAppError(err);
+        if (error.status >= 500) {
+          logger.error('Error al procesar mensaje WebSocket', err as Error, { id: ws.id });
+        }
+        ws.send({ type: 'error', ...error.toResponse() });
+      }
+    },
+
+    close(ws) {
+      chatHub.unsubscribeAll(ws.raw);
+      logger.info('Cliente WebSocket desconectado', { id: ws.id });
+    }
+  });
@@ -0,0 +1,113 @@
+import Elysia from 'elysia';
+import mongoose from 'mongoose';
+import { Chat } from '../schema/chat';
+import { Contact } from '../schema/contact';
+import { Message } from '../schema/message';
+import { searchQuerySchema } from '../schema/search';
+import { buildSnippet, extractSearchTerms } from '../utils/search';
+import { authGuard } from '../utils/auth';
+import { NotFoundError, assertObjectId } from '../utils/errors';
+import { errorResponses, jsonResponse, queryParameters, ref } from '../utils/openapi';
+
+const textScore = { score: { $meta: 'textScore' } } as const;
+
+export const searchRouter = new Elysia({ prefix: '/search' })
+  .use(authGuard)
+
+  // Buscar en mensajes y contactos del usuario
+  .get('/', async ({ query, userId }) => {
+    const { q, type, chatId, direction, from, to, page, limit } = searchQuerySchema.parse(query);
+    const terms = extractSearchTerms(q);
+    const skip = (page - 1) * limit;
+
+    // Los filtros de chat, fechas y dirección solo se aplican a los mensajes
+    let messages = null;
+    if (type !== 'contacts') {
+      let chatIds: mongoose.Types.ObjectId[];
+      if (chatId) {
+        assertObjectId(chatId, 'chatId');
+        const chat = await Chat.findOne({ _id: chatId, userId }).select('_id');
+        if (!chat) {
+          throw new NotFoundError('Chat no encontrado', { chatId });
+        }
+        chatIds = [chat._id];
+      } else {
+        chatIds = await Chat.find({ userId }).distinct('_id');
+      }
+
+      const filter: Record<string, unknown> = {
+        $text: { $search: q },
+        chatId: { $in: chatIds },
+        deletedAt: null,
+        hiddenFor: { $ne: userId }
+      };
+      if (direction) filter.direction = direction;
+      if (from || to) {
+        filter.timestamp = {
+          ...(from && { $gte: from }),
+          ...(to && { $lte: to })
+        };
+      }
+
+      const [total, docs] = await Promise.all([
+        Message.countDocuments(filter),
+        Message.find(filter, textScore)
+          .sort({ ...textScore, timestamp: -1 })
+          .skip(skip)
+          .limit(limit)
+      ]);
+
+      messages = {
+        total,
+        page,
+        limit,
+        data: docs.map(doc => ({
+          ...doc.toObject(),
+          snippet: buildSnippet(doc.content ?? '', terms)
+        }))
+      };
+    }
+
+    let contacts = null;
+    if (type !== 'messages') {
+      const filter = { $text: { $search: q }, userId };
+
+      const [total, docs] = await Promise.all([
+        Contact.countDocuments(filter),
+        Contact.find(filter, textScore)
+          .sort({ ...textScore, name: 1 })
+          .skip(skip)
+          .limit(limit)
+      ]);
+
+      contacts = {
+        total,
+        page,
+        limit,
+        data: docs.map(doc => ({
+          ...doc.toObject(),
+          snippet: buildSnippet(`${doc.name} · ${doc.email} · ${doc.phone}`, terms)
+        }))
+      };
+    }
+
+    return {
+      query: q,
+      messages,
+      contacts
+    };
+  }, {
+    detail: {
+      tags: ['Búsqueda'],
+      summary: 'Buscar mensajes y contactos',
+      description: 'Búsqueda de texto completo en el contenido de los mensajes y en el nombre, correo y teléfono de los contactos del usuario. Los resultados se ordenan por relevancia e incluyen un fragmento con las coincidencias marcadas con <mark>',
+      parameters: queryParameters(searchQuerySchema),
+      responses: {
+        200: jsonResponse('Resultados de la búsqueda. Las secciones no solicitadas con `type` son null', ref('SearchResults')),
+        ...errorResponses({
+          400: 'Parámetros de búsqueda no válidos',
+          404: 'Chat no encontrado'
+        })
+      }
+    }
+  });
@@ -0,0 +1,112 @@
+import Elysia from 'elysia';
+import { Tag, tagUpdateValidationSchema, tagValidationSchema } from '../schema/tag';
+import { authGuard } from '../utils/auth';
+import { tagLabels } from '../utils/labels';
+import { dataResponse, errorResponses, jsonBody, listResponse, pathParameters, ref } from '../utils/openapi';
+
+export const tagRouter = new Elysia({ prefix: '/tags' })
+  .use(authGuard)
+
+  // Listar las etiquetas con el número de contactos de cada una
+  .get('/', async ({ userId }) => {
+    const tags = await tagLabels.listWithCounts(userId);
+    return { count: tags.length, data: tags };
+  }, {
+    detail: {
+      tags: ['Etiquetas'],
+      summary: 'Obtener las etiquetas',
+      description: 'Lista las etiquetas del usuario ordenadas por nombre, con cuántos contactos tiene cada una',
+      responses: {
+        200: listResponse('Lista de etiquetas', ref('TagWithCount')),
+        ...errorResponses({ 500: 'Error del servidor' })
+      }
+    }
+  })
+
+  // Crear una etiqueta
+  .post('/', async ({ body, set, userId }) => {
+    const data = tagValidationSchema.parse(body);
+    await tagLabels.assertNameAvailable(userId, data.name);
+
+    const tag = await new Tag({ ...data, userId }).save();
+
+    set.status = 201;
+    return {
+      message: 'Etiqueta creada exitosamente',
+      data: tag.toObject()
+    };
+  }, {
+    detail: {
+      tags: ['Etiquetas'],
+      summary: 'Crear una etiqueta',
+      description: 'Crea una etiqueta para agrupar contactos. El nombre es único sin distinguir mayúsculas ni tildes',
+      requestBody: jsonBody(ref('TagInput')),
+      responses: {
+        201: dataResponse('Etiqueta creada exitosamente', ref('Tag')),
+        ...errorResponses({
+          400: 'Datos de entrada inválidos',
+          409: 'Ya existe una etiqueta con ese nombre'
+        })
+      }
+    }
+  })
+
+  // Renombrar o cambiar el color de una etiqueta
+  .patch('/:id', async ({ params, body, userId }) => {
+    const tag = await tagLabels.findOwned(params.id, userId);
+    const changes = tagUpdateValidationSchema.parse(body);
+
+    if (changes.name !== undefined) {
+      await tagLabels.assertNameAvailable(userId, changes.name, params.id);
+    }
+
+    tag.set(changes);
+    await tag.save();
+
+    return {
+      message: 'Etiqueta actualizada exitosamente',
+      data: tag.toObject()
+    };
+  }, {
+    detail: {
+      tags: ['Etiquetas'],
+      summary: 'Actualizar una etiqueta',
+      description: 'Cambia el nombre o el color de una etiqueta. Los contactos la conservan',
+      parameters: pathParameters({ id: 'ID de la etiqueta' }),
+      requestBody: jsonBody(ref('TagUpdateInput')),
+      responses: {
+        200: dataResponse('Etiqueta actualizada exitosamente', ref('Tag')),
+        ...errorResponses({
+          400: 'Datos de entrada inválidos',
+          404: 'Etiqueta no encontrada',
+          409: 'Ya existe una etiqueta con ese nombre'
+        })
+      }
+    }
+  })
+
+  // Eliminar una etiqueta y quitarla de los contactos
+  .delete('/:id', async ({ params, userId }) => {
+    const tag = await tagLabels.findOwned(params.id, userId);
+
+    await tagLabels.remove(tag._id, userId);
+
+    return {
+      message: 'Etiqueta eliminada exitosamente',
+      data: tag.toObject()
+    };
+  }, {
+    detail: {
+      tags: ['Etiquetas'],
+      summary: 'Eliminar una etiqueta',
+      description: 'Elimina la etiqueta y la quita de todos los contactos que la tenían',
+      parameters: pathParameters({ id: 'ID de la etiqueta' }),
+      responses: {
+        200: dataResponse('Etiqueta eliminada exitosamente', ref('Tag')),
+        ...errorResponses({
+          400: 'ID no válido',
+          404: 'Etiqueta no encontrada'
+        })
+      }
+    }
+  });
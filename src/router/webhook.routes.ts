@@ -0,0 +1,235 @@
+import Elysia from 'elysia';
+import { randomBytes } from 'node:crypto';
+import {
+  Webhook,
+  WebhookDelivery,
+  deliveryListQuerySchema,
+  webhookUpdateValidationSchema,
+  webhookValidationSchema
+} from '../schema/webhook';
+import { authGuard } from '../utils/auth';
+import { webhookDispatcher } from '../utils/webhooks';
+import { assertPublicUrl } from '../utils/network';
+import { withTransaction } from '../utils/transaction';
+import { ConflictError, NotFoundError, assertObjectId } from '../utils/errors';
+import {
+  dataResponse,
+  errorResponses,
+  jsonBody,
+  jsonResponse,
+  listResponse,
+  pathParameters,
+  queryParameters,
+  ref
+} from '../utils/openapi';
+
+const findOwnedWebhook = async (id: string, userId: string) => {
+  assertObjectId(id);
+
+  const webhook = await Webhook.findOne({ _id: id, userId });
+  if (!webhook) {
+    throw new NotFoundError('Webhook no encontrado', { id });
+  }
+  return webhook;
+};
+
+export const webhookRouter = new Elysia({ prefix: '/webhooks' })
+  .use(authGuard)
+
+  // Listar los webhooks del usuario
+  .get('/', async ({ userId }) => {
+    const webhooks = await Webhook.find({ userId }).sort({ createdAt: -1 });
+    return {
+      count: webhooks.length,
+      data: webhooks.map(webhook => webhook.toObject())
+    };
+  }, {
+    detail: {
+      tags: ['Webhooks'],
+      summary: 'Obtener los webhooks',
+      description: 'Lista las suscripciones del usuario. El secreto de firma no se incluye',
+      responses: {
+        200: listResponse('Lista de webhooks', ref('Webhook')),
+        ...errorResponses({ 500: 'Error del servidor' })
+      }
+    }
+  })
+
+  // Registrar un webhook
+  .post('/', async ({ body, set, userId }) => {
+    const { secret, ...data } = webhookValidationSchema.parse(body);
+    await assertPublicUrl(data.url);
+
+    const webhook = await new Webhook({
+      ...data,
+      userId,
+      secret: secret ?? randomBytes(32).toString('hex')
+    }).save();
+
+    set.status = 201;
+    return {
+      message: 'Webhook creado exitosamente',
+      data: webhook.toObject()
+    };
+  }, {
+    detail: {
+      tags: ['Webhooks'],
+      summary: 'Registrar un webhook',
+      description: 'Suscribe una URL a los eventos indicados. Cada envío es un POST con el evento en JSON y las '
+        + 'cabeceras X-Webhook-Event, X-Webhook-Delivery, X-Webhook-Timestamp y X-Webhook-Signature '
+        + '(sha256=HMAC-SHA256 de "<timestamp>.<cuerpo>" con el secreto). El secreto solo se devuelve en esta respuesta. '
+        + 'La URL no puede apuntar ni resolver a direcciones privadas, locales o de enlace local',
+      requestBody: jsonBody(ref('WebhookInput')),
+      responses: {
+        201: dataResponse('Webhook creado exitosamente', ref('WebhookCreated')),
+        ...errorResponses({ 400: 'Datos de entrada inválidos' })
+      }
+    }
+  })
+
+  // Obtener un webhook por ID
+  .get('/:id', async ({ params, userId }) => {
+    const webhook = await findOwnedWebhook(params.id, userId);
+    return webhook.toObject();
+  }, {
+    detail: {
+      tags: ['Webhooks'],
+      summary: 'Obtener un webhook por ID',
+      parameters: pathParameters({ id: 'ID del webhook' }),
+      responses: {
+        200: jsonResponse('Webhook encontrado', ref('Webhook')),
+        ...errorResponses({
+          400: 'ID no válido',
+          404: 'Webhook no encontrado'
+        })
+      }
+    }
+  })
+
+  // Cambiar la URL, los eventos o activar y desactivar un webhook
+  .patch('/:id', async ({ params, body, userId }) => {
+    const changes = webhookUpdateValidationSchema.parse(body);
+    if (changes.url) {
+      await assertPublicUrl(changes.url);
+    }
+    const webhook = await findOwnedWebhook(params.id, userId);
+
+    webhook.set(changes);
+    await webhook.save();
+
+    return {
+      message: 'Webhook actualizado exitosamente',
+      data: webhook.toObject()
+    };
+  }, {
+    detail: {
+      tags: ['Webhooks'],
+      summary: 'Actualizar un webhook',
+      description: 'Las entregas pendientes de un webhook desactivado se dan por fallidas al intentar enviarlas',
+      parameters: pathParameters({ id: 'ID del webhook' }),
+      requestBody: jsonBody(ref('WebhookUpdateInput')),
+      responses: {
+        200: dataResponse('Webhook actualizado exitosamente', ref('Webhook')),
+        ...errorResponses({
+          400: 'Datos de entrada inválidos',
+          404: 'Webhook no encontrado'
+        })
+      }
+    }
+  })
+
+  // Eliminar un webhook y su registro de entregas
+  .delete('/:id', async ({ params, userId }) => {
+    const webhook = await findOwnedWebhook(params.id, userId);
+
+    await withTransaction(async session => {
+      await Webhook.deleteOne({ _id: webhook._id }, { session });
+      await WebhookDelivery.deleteMany({ webhookId: webhook._id }, { session });
+    });
+
+    return {
+      message: 'Webhook eliminado exitosamente',
+      data: webhook.toObject()
+    };
+  }, {
+    detail: {
+      tags: ['Webhooks'],
+      summary: 'Eliminar un webhook',
+      description: 'Elimina la suscripción y su registro de entregas',
+      parameters: pathParameters({ id: 'ID del webhook' }),
+      responses: {
+        200: dataResponse('Webhook eliminado exitosamente', ref('Webhook')),
+        ...errorResponses({
+          400: 'ID no válido',
+          404: 'Webhook no encontrado'
+        })
+      }
+    }
+  })
+
+  // Registro de entregas de un webhook
+  .get('/:id/deliveries', async ({ params, query, userId }) => {
+    const { status, limit } = deliveryListQuerySchema.parse(query);
+    const webhook = await findOwnedWebhook(params.id, userId);
+
+    const deliveries = await WebhookDelivery.find({ webhookId: webhook._id, ...(status && { status }) })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .select('-lockedAt -userId');
+
+    return {
+      count: deliveries.length,
+      data: deliveries.map(delivery => delivery.toObject())
+    };
+  }, {
+    detail: {
+      tags: ['Webhooks'],
+      summary: 'Obtener el registro de entregas',
+      description: 'Lista las entregas del webhook, las más recientes primero, con su estado, intentos y la última respuesta del receptor',
+      parameters: [...pathParameters({ id: 'ID del webhook' }), ...queryParameters(deliveryListQuerySchema)],
+      responses: {
+        200: listResponse('Registro de entregas', ref('WebhookDelivery')),
+        ...errorResponses({
+          400: 'Parámetros no válidos',
+          404: 'Webhook no encontrado'
+        })
+      }
+    }
+  })
+
+  // Reenviar una entrega
+  .post('/:id/deliveries/:deliveryId/replay', async ({ params, set, userId }) => {
+    const webhook = await findOwnedWebhook(params.id, userId);
+    assertObjectId(params.deliveryId, 'deliveryId');
+
+    const delivery = await WebhookDelivery.findOne({ _id: params.deliveryId, webhookId: webhook._id });
+    if (!delivery) {
+      throw new NotFoundError('Entrega no encontrada', { deliveryId: params.deliveryId });
+    }
+    if (!webhook.isActive) {
+      throw new ConflictError('El webhook está desactivado', { id: params.id });
+    }
+
+    const replay = await webhookDispatcher.replay(delivery);
+
+    set.status = 202;
+    return {
+      message: 'Entrega programada para reenvío',
+      data: replay.toObject()
+    };
+  }, {
+    detail: {
+      tags: ['Webhooks'],
+      summary: 'Reenviar una entrega',
+      description: 'Crea una entrega nueva con el mismo evento y cuerpo (mismo id de evento) y la envía con los reintentos habituales',
+      parameters: pathParameters({ id: 'ID del webhook', deliveryId: 'ID de la entrega' }),
+      responses: {
+        202: dataResponse('Entrega programada para reenvío', ref('WebhookDelivery')),
+        ...errorResponses({
+          400: 'ID no válido',
+          404: 'Webhook o entrega no encontrados',
+          409: 'El webhook está desactivado'
+        })
+      }
+    }
+  });
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { objectIdSchema } from './common';
+import { contactValidationSchema } from './contact';
+import { WHATSAPP_DATE_ORDERS } from '../utils/whatsapp';
+
+// Cada autor de la exportación se asocia a un contacto existente o a los
+// datos con los que crearlo
+const authorMappingSchema = z.union([
+  z.object({
+    contactId: z.string().min(1, 'El ID del contacto no puede estar vacío'),
+  }),
+  contactValidationSchema.pick({ email: true, phone: true }),
+]);
+
+// En multipart/form-data los objetos llegan como texto JSON
+const jsonField = <T extends z.ZodTypeAny>(schema: T) => z.preprocess(value => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}, schema);
+
+// Opciones de la importación de una conversación de WhatsApp
+export const chatImportValidationSchema = z.object({
+  ownerName: z.string().trim().min(1, 'El nombre del usuario en la exportación es obligatorio')
+    .describe('Nombre con el que aparece el usuario en la exportación; sus mensajes se importan como outgoing'),
+  dateOrder: z.enum(WHATSAPP_DATE_ORDERS, {
+    errorMap: () => ({ message: 'El orden de fecha debe ser "DMY" o "MDY"' })
+  }).default('DMY').describe('Orden de día y mes en las fechas de la exportación'),
+  groupName: z.string().trim().min(1).max(100, 'El nombre del grupo no puede superar 100 caracteres').optional()
+    .describe('Nombre del grupo que se crea si en la conversación participan varios contactos'),
+  authors: jsonField(z.record(authorMappingSchema, {
+    invalid_type_error: 'authors debe ser un objeto JSON con un contacto por autor',
+  })).optional()
+    .describe('Contacto de cada autor: { "Ana": { "contactId": "..." } } o { "Ana": { "email": "...", "phone": "..." } } para crearlo. Los autores sin entrada se buscan por nombre o teléfono'),
+});
+
+export type ChatImportInput = z.infer<typeof chatImportValidationSchema>;
+
+export const chatImportResponseSchema = z.object({
+  chatId: objectIdSchema,
+  imported: z.number().int().describe('Mensajes importados'),
+  skipped: z.number().int().describe('Avisos del sistema sin autor que se han omitido'),
+  createdContacts: z.array(objectIdSchema),
+  authors: z.record(objectIdSchema.nullable()).describe('Contacto asignado a cada autor; null para el usuario'),
+});
+
+export type ChatImportResult = z.infer<typeof chatImportResponseSchema>;
@@ -1,14 +1,54 @@
 import mongoose, { Document } from 'mongoose';
 import { z } from 'zod';
+import { dateTimeSchema, documentSchema, objectIdSchema } from './common';
+import { contactSegmentQuerySchema } from './tag';
+import { chatHub } from '../utils/realtime';
+import { removeAttachments } from '../utils/attachments';
+import { afterCommit } from '../utils/transaction';
+
+// Dirección del último mensaje. Repite MESSAGE_DIRECTIONS porque message.ts
+// ya importa este módulo y la importación circular lo dejaría sin definir
+const LAST_MESSAGE_DIRECTIONS = ['incoming', 'outgoing'] as const;
+
+// Tipo de chat: 'direct' con un único contacto o 'group' con varios participantes
+export const CHAT_TYPES = ['direct', 'group'] as const;
+
+export type ChatType = typeof CHAT_TYPES[number];
+
+// Rol de un participante dentro de un grupo. El usuario propietario del chat
+// siempre tiene permisos de administración
+export const PARTICIPANT_ROLES = ['admin', 'member'] as const;
+
+export type ParticipantRole = typeof PARTICIPANT_ROLES[number];
+
+interface IParticipant {
+  contactId: mongoose.Types.ObjectId;
+  role: ParticipantRole;
+  joinedAt: Date;
+}
 
 // Interfaz para el documento Chat
 interface IChat extends Document {
   _id: mongoose.Types.ObjectId; // Explicitly define _id for better typing
-  contactId: mongoose.Types.ObjectId;
-  messageIds: mongoose.Types.ObjectId[];
+  userId: mongoose.Types.ObjectId;
+  type: ChatType;
+  // Solo en los chats directos; en los grupos es null
+  contactId: mongoose.Types.ObjectId | null;
+  // Copia del nombre y el bloqueo del contacto para listar sin poblar
+  contactName: string | null;
+  contactBlocked: boolean;
+  name: string | null;
+  avatarUrl: string | null;
+  participants: IParticipant[];
+  // Resumen del último mensaje visible; el historial se consulta por Message.chatId
   lastMessage: mongoose.Types.ObjectId | null;
+  lastMessageAt: Date | null;
+  lastMessagePreview: string | null;
+  lastMessageDirection: typeof LAST_MESSAGE_DIRECTIONS[number] | null;
+  messageCount: number;
   unreadCount: number;
   isArchived: boolean;
+  isPinned: boolean;
   createdAt: Date;
   updatedAt: Date;
   // Agregamos el método toJSON
@@ -21,7 +61,6 @@ export const chatValidationSchema = z.object({
     required_error: 'El ID del contacto es obligatorio',
     invalid_type_error: 'El ID del contacto debe ser una cadena de texto',
   }).min(1, 'El ID del contacto no puede estar vacío'),
-  messageIds: z.array(z.string()).default([]).optional(),
   timestamp: z.union([z.string().datetime(), z.date()])
     .transform(val => typeof val === 'string' ? new Date(val) : val)
     .optional(),
@@ -29,24 +68,246 @@ export const chatValidationSchema = z.object({
 
 export type ChatInput = z.infer<typeof chatValidationSchema>;
 
+// Creación de un chat de grupo
+export const groupChatValidationSchema = z.object({
+  name: z.string().trim()
+    .min(1, 'El nombre del grupo es obligatorio')
+    .max(100, 'El nombre del grupo no puede superar 100 caracteres')
+    .describe('Nombre del grupo'),
+  avatarUrl: z.string().url('La URL del avatar no es válida').optional()
+    .describe('URL de la imagen del grupo'),
+  participants: z.array(z.string().min(1, 'El ID del contacto no puede estar vacío'))
+    .min(1, 'El grupo debe tener al menos un participante')
+    .describe('IDs de los contactos que forman el grupo'),
+});
+
+export type GroupChatInput = z.infer<typeof groupChatValidationSchema>;
+
+// Edición del nombre o la imagen de un grupo
+export const groupChatUpdateValidationSchema = z.object({
+  name: groupChatValidationSchema.shape.name.optional(),
+  avatarUrl: z.string().url('La URL del avatar no es válida').nullable().optional()
+    .describe('URL de la imagen del grupo o null para quitarla'),
+}).refine(data => data.name !== undefined || data.avatarUrl !== undefined, {
+  message: 'Debe indicarse el nombre o la imagen del grupo',
+});
+
+export type GroupChatUpdateInput = z.infer<typeof groupChatUpdateValidationSchema>;
+
+const participantRoleSchema = z.enum(PARTICIPANT_ROLES, {
+  errorMap: () => ({ message: 'El rol debe ser "admin" o "member"' })
+});
+
+// Alta de un participante en un grupo
+export const participantValidationSchema = z.object({
+  contactId: z.string().min(1, 'El ID del contacto es obligatorio')
+    .describe('ID del contacto que se añade al grupo'),
+  role: participantRoleSchema.default('member').describe('Rol del participante en el grupo'),
+});
+
+export type ParticipantInput = z.infer<typeof participantValidationSchema>;
+
+// Cambio de rol de un participante
+export const participantRoleValidationSchema = z.object({
+  role: participantRoleSchema.describe('Nuevo rol del participante'),
+});
+
+export type ParticipantRoleInput = z.infer<typeof participantRoleValidationSchema>;
+
+// Esquema de respuesta (documentación OpenAPI)
+export const chatResponseSchema = documentSchema.extend({
+  userId: objectIdSchema,
+  type: z.enum(CHAT_TYPES),
+  contactId: objectIdSchema.nullable().describe('Contacto del chat directo; null en los grupos'),
+  contactName: z.string().nullable().describe('Nombre del contacto del chat directo; null en los grupos'),
+  contactBlocked: z.boolean().describe('El contacto del chat directo está bloqueado'),
+  name: z.string().nullable().describe('Nombre del grupo'),
+  avatarUrl: z.string().nullable().describe('Imagen del grupo'),
+  participants: z.array(z.object({
+    contactId: objectIdSchema,
+    role: z.enum(PARTICIPANT_ROLES),
+    joinedAt: dateTimeSchema,
+  })).describe('Participantes del grupo; vacío en los chats directos'),
+  lastMessage: objectIdSchema.nullable(),
+  lastMessageAt: dateTimeSchema.nullable().describe('Fecha del último mensaje visible'),
+  lastMessagePreview: z.string().nullable().describe('Texto abreviado del último mensaje visible'),
+  lastMessageDirection: z.enum(LAST_MESSAGE_DIRECTIONS).nullable()
+    .describe('Si el último mensaje lo envió el contacto (incoming) o el usuario (outgoing)'),
+  messageCount: z.number().int().min(0).describe('Mensajes del historial, sin contar los ocultados por el usuario'),
+  unreadCount: z.number().int().min(0),
+  isArchived: z.boolean(),
+  isPinned: z.boolean(),
+});
+
+// Filtros del listado de chats: por defecto solo los no archivados
+export const chatListQuerySchema = z.object({
+  archived: z.enum(['true', 'false', 'all'], {
+    errorMap: () => ({ message: 'El filtro archived debe ser "true", "false" o "all"' })
+  }).default('false').describe('Solo no archivados (false), solo archivados (true) o todos (all)'),
+  blocked: z.enum(['true', 'false', 'all'], {
+    errorMap: () => ({ message: 'El filtro blocked debe ser "true", "false" o "all"' })
+  }).default('false').describe('Chats de contactos no bloqueados (false), solo bloqueados (true) o todos (all)'),
+}).merge(contactSegmentQuerySchema);
+
+export type ChatListQuery = z.infer<typeof chatListQuerySchema>;
+
+// Bandeja de entrada: mismos filtros que el listado, paginada por actividad
+export const chatInboxQuerySchema = chatListQuerySchema.pick({ archived: true, blocked: true }).extend({
+  order: z.enum(['desc', 'asc'], {
+    errorMap: () => ({ message: 'La dirección debe ser "asc" o "desc"' })
+  }).default('desc').describe('Actividad más reciente primero (desc) o más antigua primero (asc)'),
+  page: z.coerce.number()
+    .int('La página debe ser un número entero')
+    .min(1, 'La página debe ser al menos 1')
+    .default(1)
+    .describe('Número de página'),
+  limit: z.coerce.number()
+    .int('El límite debe ser un número entero')
+    .min(1, 'El límite debe ser al menos 1')
+    .max(100, 'El límite no puede superar 100')
+    .default(20)
+    .describe('Número máximo de chats por página'),
+});
+
+export type ChatInboxQuery = z.infer<typeof chatInboxQuerySchema>;
+
+// Resumen compacto de un chat para la bandeja de entrada
+export const chatInboxItemSchema = z.object({
+  id: objectIdSchema,
+  type: z.enum(CHAT_TYPES),
+  title: z.string().nullable().describe('Nombre del contacto o del grupo'),
+  avatarUrl: z.string().nullable(),
+  contactId: objectIdSchema.nullable(),
+  lastMessage: z.object({
+    id: objectIdSchema,
+    preview: z.string(),
+    direction: z.enum(LAST_MESSAGE_DIRECTIONS),
+    timestamp: dateTimeSchema,
+  }).nullable().describe('Último mensaje visible; null si el chat no tiene mensajes'),
+  unreadCount: z.number().int().min(0),
+  isPinned: z.boolean(),
+  isArchived: z.boolean(),
+});
+
+export const chatInboxResponseSchema = z.object({
+  count: z.number().int().describe('Chats en esta página'),
+  total: z.number().int().describe('Chats que cumplen los filtros'),
+  page: z.number().int(),
+  limit: z.number().int(),
+  data: z.array(chatInboxItemSchema),
+});
+
+// Marcar como leídos los mensajes hasta upTo (incluido) o todos si se omite
+export const chatReadValidationSchema = z.object({
+  upTo: z.string().min(1, 'El ID del mensaje no puede estar vacío').optional()
+    .describe('ID del último mensaje leído'),
+});
+
+export type ChatReadInput = z.infer<typeof chatReadValidationSchema>;
+
+// Formatos de exportación de una conversación
+export const CHAT_EXPORT_FORMATS = ['json', 'txt', 'html'] as const;
+
+export type ChatExportFormat = typeof CHAT_EXPORT_FORMATS[number];
+
+export const chatExportQuerySchema = z.object({
+  format: z.enum(CHAT_EXPORT_FORMATS, {
+    errorMap: () => ({ message: 'El formato debe ser "json", "txt" o "html"' })
+  }).default('json').describe('Formato de la transcripción'),
+});
+
+export type ChatExportQuery = z.infer<typeof chatExportQuerySchema>;
+
+export const chatReadResponseSchema = z.object({
+  chatId: objectIdSchema,
+  updated: z.number().int().describe('Número de mensajes marcados como leídos'),
+  unreadCount: z.number().int().min(0),
+});
+
 // Esquema de Mongoose
 const chatSchema = new mongoose.Schema<IChat>({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'El ID del usuario es obligatorio'],
+    index: true
+  },
+  type: {
+    type: String,
+    enum: CHAT_TYPES,
+    default: 'direct'
+  },
   contactId: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'Contact',
-    required: [true, 'El ID del contacto es obligatorio'],
+    // Los grupos no tienen un contacto único sino una lista de participantes
+    required: [function(this: { type?: ChatType }) {
+      return this.type !== 'group';
+    }, 'El ID del contacto es obligatorio'],
+    default: null,
     index: true
   },
-  messageIds: [{
-    type: mongoose.Schema.Types.ObjectId,
-    ref: 'Message',
-    default: []
+  name: {
+    type: String,
+    required: [function(this: { type?: ChatType }) {
+      return this.type === 'group';
+    }, 'El nombre del grupo es obligatorio'],
+    trim: true,
+    default: null
+  },
+  avatarUrl: {
+    type: String,
+    trim: true,
+    default: null
+  },
+  contactName: {
+    type: String,
+    default: null
+  },
+  contactBlocked: {
+    type: Boolean,
+    default: false
+  },
+  participants: [{
+    _id: false,
+    contactId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Contact',
+      required: [true, 'El ID del participante es obligatorio']
+    },
+    role: {
+      type: String,
+      enum: PARTICIPANT_ROLES,
+      default: 'member'
+    },
+    joinedAt: {
+      type: Date,
+      default: Date.now
+    }
   }],
   lastMessage: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'Message',
     default: null
   },
+  lastMessageAt: {
+    type: Date,
+    default: null
+  },
+  lastMessagePreview: {
+    type: String,
+    default: null
+  },
+  lastMessageDirection: {
+    type: String,
+    enum: [...LAST_MESSAGE_DIRECTIONS, null],
+    default: null
+  },
+  messageCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
   unreadCount: {
     type: Number,
     default: 0,
@@ -55,6 +316,11 @@ const chatSchema = new mongoose.Schema<IChat>({
   isArchived: {
     type: Boolean,
     default: false
+  },
+  // Los chats fijados se muestran antes que el resto
+  isPinned: {
+    type: Boolean,
+    default: false
   }
 }, {
   timestamps: {
@@ -65,6 +331,12 @@ const chatSchema = new mongoose.Schema<IChat>({
 
 // Índice compuesto para búsquedas frecuentes
 chatSchema.index({ contactId: 1, updatedAt: -1 });
+chatSchema.index({ userId: 1, isArchived: 1, isPinned: -1, updatedAt: -1 });
+
+// Índice para localizar los grupos en los que participa un contacto
+chatSchema.index({ 'participants.contactId': 1 });
+// Bandeja de entrada: fijados primero y después por actividad
+chatSchema.index({ userId: 1, isArchived: 1, isPinned: -1, lastMessageAt: -1, createdAt: -1 });
 
 // Middleware para formatear la salida JSON
 chatSchema.set('toJSON', {
@@ -82,7 +354,51 @@ chatSchema.pre<IChat>('save', function(next) {
   next();
 });
 
+// Campos cuyos cambios se notifican a los clientes suscritos por WebSocket
+const REALTIME_FIELDS = [
+  'unreadCount', 'lastMessage', 'lastMessagePreview', 'messageCount',
+  'isArchived', 'isPinned', 'name', 'avatarUrl', 'participants'
+];
+
+chatSchema.pre<IChat>('save', function(next) {
+  this.$locals.notifyRealtime = !this.isNew && REALTIME_FIELDS.some(field => this.isModified(field));
+  next();
+});
+
+// Dentro de una transacción el evento espera a que se confirme
+chatSchema.post<IChat>('save', async function(doc) {
+  if (doc.$locals.notifyRealtime) {
+    const data = doc.toObject();
+    await afterCommit(doc.$session() ?? undefined, async () => chatHub.publish(doc._id.toString(), 'chat.updated', data));
+  }
+});
+
+// Borrado en cascada: al eliminar un chat se eliminan sus mensajes, también
+// los programados, y se desvincula del contacto. Se usa la sesión de la
+// consulta para que todo ocurra dentro de la misma transacción. Los ficheros
+// adjuntos se borran cuando la transacción se confirma.
+chatSchema.post('findOneAndDelete', async function(doc: IChat | null) {
+  if (!doc) return;
+
+  const session = this.getOptions().session ?? undefined;
+  const storageKeys: string[] = await mongoose.model('Message')
+    .find({ chatId: doc._id })
+    .session(session ?? null)
+    .distinct('attachments.storageKey');
+  await mongoose.model('Message').deleteMany({ chatId: doc._id }, { session });
+  await mongoose.model('ScheduledMessage').deleteMany({ chatId: doc._id }, { session });
+  await mongoose.model('Contact').updateOne(
+    { _id: doc.contactId, chatId: doc._id.toString() },
+    { $unset: { chatId: 1 } },
+    { session }
+  );
+
+  await afterCommit(session, () => removeAttachments(storageKeys.map(storageKey => ({ storageKey }))));
+});
+
 // Modelo de Mongoose
 export const Chat = mongoose.model<IChat>('Chat', chatSchema);
 
+export type ChatDocument = mongoose.HydratedDocument<IChat>;
+
 export default Chat;
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+// Piezas comunes de los esquemas de respuesta que se documentan en OpenAPI.
+// Reflejan cómo se serializan los documentos de Mongoose en JSON.
+export const objectIdSchema = z.string()
+  .regex(/^[a-f\d]{24}$/i, 'Identificador no válido')
+  .describe('ObjectId de MongoDB');
+
+export const dateTimeSchema = z.string().datetime().describe('Fecha ISO 8601');
+
+// Campos que añade MongoDB/Mongoose a todos los documentos
+export const documentSchema = z.object({
+  _id: objectIdSchema,
+  createdAt: dateTimeSchema,
+  updatedAt: dateTimeSchema,
+});
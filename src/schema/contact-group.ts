@@ -0,0 +1,42 @@
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { createLabelSchema, labelNameSchema, labelResponseSchema } from './label';
+
+// Grupos de contactos definidos por el usuario, por ejemplo una cartera de
+// clientes. No confundir con los chats de grupo
+export const contactGroupValidationSchema = z.object({
+  name: labelNameSchema('del grupo', 60),
+  description: z.string().trim()
+    .max(200, 'La descripción no puede superar 200 caracteres')
+    .nullable()
+    .optional(),
+});
+
+export type ContactGroupInput = z.infer<typeof contactGroupValidationSchema>;
+
+export const contactGroupUpdateValidationSchema = contactGroupValidationSchema.partial()
+  .refine(data => data.name !== undefined || data.description !== undefined, {
+    message: 'Debe indicarse el nombre o la descripción del grupo',
+  });
+
+export type ContactGroupUpdateInput = z.infer<typeof contactGroupUpdateValidationSchema>;
+
+export const contactGroupResponseSchema = labelResponseSchema.extend({
+  description: z.string().nullable(),
+});
+
+export const contactGroupWithCountResponseSchema = contactGroupResponseSchema.extend({
+  contactCount: z.number().int().describe('Contactos del grupo'),
+});
+
+// Esquema de Mongoose
+const contactGroupSchema = createLabelSchema('del grupo', {
+  description: {
+    type: String,
+    default: null
+  }
+});
+
+export const ContactGroup = mongoose.model('ContactGroup', contactGroupSchema);
+
+export default ContactGroup;
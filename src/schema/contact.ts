@@ -1,19 +1,145 @@
 import mongoose from 'mongoose';
 import { z } from 'zod';
 import Chat from './chat';
+import { dateTimeSchema, documentSchema, objectIdSchema } from './common';
+import { contactSegmentQuerySchema } from './tag';
 
 // Esquema de validación con Zod
 export const contactValidationSchema = z.object({
   name: z.string().min(2, 'El nombre debe tener al menos 2 caracteres'),
   email: z.string().email('Correo electrónico no válido'),
-  phone: z.string().regex(/^\d{9}$/, 'El teléfono debe tener 9 dígitos'),
+  phone: z.string().regex(/^\d{9}$/, 'El teléfono debe tener 9 dígitos')
+    .describe('Teléfono de 9 dígitos, por ejemplo 612345678'),
   chatId: z.string().optional(),
 });
 
 export type ContactInput = z.infer<typeof contactValidationSchema>;
 
-// Esquema de Mongoose
+// Actualización parcial: solo se modifican los campos indicados
+export const contactUpdateValidationSchema = contactValidationSchema
+  .omit({ chatId: true })
+  .partial()
+  .refine(data => Object.values(data).some(value => value !== undefined), {
+    message: 'Debe indicarse al menos un campo a actualizar',
+  });
+
+export type ContactUpdateInput = z.infer<typeof contactUpdateValidationSchema>;
+
+// Campos por los que se puede ordenar el listado de contactos
+export const CONTACT_SORT_FIELDS = ['name', 'email', 'createdAt', 'updatedAt'] as const;
+
+export type ContactSortField = typeof CONTACT_SORT_FIELDS[number];
+
+// Búsqueda, orden y paginación del listado. Se pagina por número de página
+// o, para listas largas, con el cursor devuelto en la página anterior
+export const contactListQuerySchema = z.object({
+  q: z.string().trim()
+    .min(1, 'La búsqueda no puede estar vacía')
+    .max(100, 'La búsqueda no puede superar 100 caracteres')
+    .optional()
+    .describe('Prefijo del nombre, correo o teléfono. No distingue mayúsculas ni tildes'),
+  sort: z.enum(CONTACT_SORT_FIELDS, {
+    errorMap: () => ({ message: 'El orden debe ser "name", "email", "createdAt" o "updatedAt"' })
+  }).default('createdAt').describe('Campo por el que se ordena'),
+  order: z.enum(['asc', 'desc'], {
+    errorMap: () => ({ message: 'La dirección debe ser "asc" o "desc"' })
+  }).default('desc').describe('Orden ascendente o descendente'),
+  page: z.coerce.number()
+    .int('La página debe ser un número entero')
+    .min(1, 'La página debe ser al menos 1')
+    .optional()
+    .describe('Número de página (por defecto 1). No se combina con cursor'),
+  limit: z.coerce.number()
+    .int('El límite debe ser un número entero')
+    .min(1, 'El límite debe ser al menos 1')
+    .max(100, 'El límite no puede superar 100')
+    .default(50)
+    .describe('Número máximo de contactos por página'),
+  cursor: z.string().min(1, 'El cursor no puede estar vacío').optional()
+    .describe('Cursor nextCursor de la página anterior, con los mismos q, sort y order'),
+}).merge(contactSegmentQuerySchema).refine(query => query.page === undefined || query.cursor === undefined, {
+  message: 'No se pueden combinar page y cursor',
+  path: ['cursor'],
+});
+
+export type ContactListQuery = z.infer<typeof contactListQuerySchema>;
+
+// Formatos de fichero para importar y exportar contactos
+export const CONTACT_FILE_FORMATS = ['csv', 'vcard'] as const;
+
+export type ContactFileFormat = typeof CONTACT_FILE_FORMATS[number];
+
+const contactFileFormatSchema = z.enum(CONTACT_FILE_FORMATS, {
+  errorMap: () => ({ message: 'El formato debe ser "csv" o "vcard"' })
+});
+
+export const contactImportQuerySchema = z.object({
+  format: contactFileFormatSchema.optional()
+    .describe('Formato del fichero. Si se omite se deduce de la extensión o del contenido'),
+  upsert: z.enum(['true', 'false'], {
+    errorMap: () => ({ message: 'upsert debe ser "true" o "false"' })
+  }).default('false').describe('Actualizar el nombre y el teléfono de los contactos que ya existen con el mismo correo'),
+});
+
+export type ContactImportQuery = z.infer<typeof contactImportQuerySchema>;
+
+export const contactExportQuerySchema = z.object({
+  format: contactFileFormatSchema.default('csv').describe('Formato del fichero exportado'),
+});
+
+export type ContactExportQuery = z.infer<typeof contactExportQuerySchema>;
+
+// Resultado de una importación
+export const contactImportResponseSchema = z.object({
+  total: z.number().int().describe('Registros leídos del fichero'),
+  created: z.number().int(),
+  updated: z.number().int(),
+  duplicates: z.array(z.object({
+    row: z.number().int().describe('Número de registro en el fichero, empezando en 1'),
+    email: z.string(),
+    reason: z.enum(['file', 'existing']).describe('Repetido en el fichero o ya existente'),
+  })),
+  errors: z.array(z.object({
+    row: z.number().int(),
+    errors: z.array(z.object({ field: z.string(), message: z.string() })),
+  })),
+});
+
+export type ContactImportReport = z.infer<typeof contactImportResponseSchema>;
+
+// Esquema de respuesta (documentación OpenAPI)
+export const contactResponseSchema = documentSchema.merge(contactValidationSchema).extend({
+  userId: objectIdSchema,
+  chatId: objectIdSchema.optional(),
+  tagIds: z.array(objectIdSchema).describe('Etiquetas asignadas al contacto'),
+  groupIds: z.array(objectIdSchema).describe('Grupos de contactos a los que pertenece'),
+  isFavorite: z.boolean(),
+  isBlocked: z.boolean().describe('Los contactos bloqueados no pueden enviar mensajes'),
+  blockedAt: dateTimeSchema.nullable(),
+});
+
+export const contactPageResponseSchema = z.object({
+  count: z.number().int().describe('Contactos en esta página'),
+  total: z.number().int().describe('Contactos que cumplen la búsqueda'),
+  page: z.number().int().nullable().describe('Página actual; null si se pagina con cursor'),
+  limit: z.number().int(),
+  nextCursor: z.string().nullable().describe('Cursor para la página siguiente; null si no hay más'),
+  data: z.array(contactResponseSchema),
+});
+
+// Texto normalizado para buscar y ordenar sin distinguir mayúsculas ni tildes
+export const normalizeSearchText = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+// Esquema de Mongoose. Con optimisticConcurrency cada guardado incrementa __v,
+// que se expone como ETag para las actualizaciones condicionales
 const contactSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'El ID del usuario es obligatorio'],
+    index: true
+  },
   name: { 
     type: String, 
     required: [true, 'El nombre es requerido'],
@@ -22,7 +148,6 @@ const contactSchema = new mongoose.Schema({
   email: { 
     type: String, 
     required: [true, 'El correo electrónico es requerido'],
-    unique: true,
     trim: true,
     lowercase: true
   },
@@ -36,6 +161,31 @@ const contactSchema = new mongoose.Schema({
     required: false,
     trim: true
   },
+  tagIds: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tag'
+  }],
+  groupIds: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ContactGroup'
+  }],
+  isFavorite: {
+    type: Boolean,
+    default: false
+  },
+  isBlocked: {
+    type: Boolean,
+    default: false
+  },
+  blockedAt: {
+    type: Date,
+    default: null
+  },
+  // Nombre normalizado para la búsqueda por prefijo y el orden alfabético
+  searchName: {
+    type: String,
+    select: false
+  },
   createdAt: { 
     type: Date, 
     default: Date.now,
@@ -45,7 +195,26 @@ const contactSchema = new mongoose.Schema({
     type: Date, 
     default: Date.now 
   }
-});
+}, { optimisticConcurrency: true });
+
+// El correo es único dentro de los contactos de cada usuario
+contactSchema.index({ userId: 1, email: 1 }, { unique: true });
+
+// Índices del listado: búsqueda por prefijo y orden con _id para desempatar
+contactSchema.index({ userId: 1, searchName: 1, _id: 1 });
+contactSchema.index({ userId: 1, phone: 1 });
+contactSchema.index({ userId: 1, tagIds: 1 });
+contactSchema.index({ userId: 1, groupIds: 1 });
+contactSchema.index({ userId: 1, isFavorite: 1 });
+contactSchema.index({ userId: 1, isBlocked: 1, blockedAt: -1 });
+contactSchema.index({ userId: 1, createdAt: -1, _id: -1 });
+contactSchema.index({ userId: 1, updatedAt: -1, _id: -1 });
+
+// Índice de texto para la búsqueda por nombre, correo o teléfono
+contactSchema.index(
+  { name: 'text', email: 'text', phone: 'text' },
+  { default_language: 'spanish', weights: { name: 3, email: 2, phone: 1 }, name: 'contact_text' }
+);
 
 // Middleware para actualizar la fecha de actualización
 contactSchema.pre('save', function(next) {
@@ -53,23 +222,68 @@ contactSchema.pre('save', function(next) {
   next();
 });
 
+contactSchema.pre('save', function(next) {
+  if (this.isModified('name') || !this.searchName) {
+    this.searchName = normalizeSearchText(this.name);
+  }
+  if (this.isModified('isBlocked')) {
+    this.set('blockedAt', this.isBlocked ? new Date() : null);
+  }
+  // Los chats guardan una copia del nombre y del bloqueo
+  this.$locals.syncChats = !this.isNew && (this.isModified('name') || this.isModified('isBlocked'));
+  next();
+});
+
+contactSchema.post('save', async function(doc) {
+  if (doc.$locals.syncChats) {
+    await Chat.updateMany(
+      { contactId: doc._id },
+      { $set: { contactName: doc.name, contactBlocked: doc.isBlocked } }
+    );
+  }
+});
+
 // Middleware para crear un chat al crear un contacto
 contactSchema.post('save', async function(doc: any) { // Made async and temporarily typed doc as any
   if (!doc.chatId) {
     const chat = new Chat({
+      userId: doc.userId,
       contactId: doc._id,
-      messageIds: [],
+      contactName: doc.name,
+      contactBlocked: doc.isBlocked,
       lastMessage: null,
       unreadCount: 0,
       isArchived: false
       // createdAt and updatedAt are handled by timestamps:true in chatSchema
     });
-    await chat.save(); // Await save operation
+    // Dentro de una transacción el chat se crea en ella junto con el contacto
+    await chat.save({ session: doc.$session() }); // Await save operation
     doc.chatId = chat._id.toString();
     await doc.save(); // Await save operation
   }
 });
 
+// Borrado en cascada: al eliminar un contacto se eliminan sus chats directos
+// (y, a través del middleware de Chat, sus mensajes) en la misma transacción
+contactSchema.post('findOneAndDelete', async function(
+  doc: mongoose.HydratedDocument<mongoose.InferSchemaType<typeof contactSchema>> | null
+) {
+  if (!doc) return;
+
+  const session = this.getOptions().session ?? undefined;
+  const chats = await Chat.find({ contactId: doc._id }, '_id', { session });
+  for (const chat of chats) {
+    await Chat.findOneAndDelete({ _id: chat._id }, { session });
+  }
+
+  // En los grupos el contacto solo deja de ser participante
+  await Chat.updateMany(
+    { 'participants.contactId': doc._id },
+    { $pull: { participants: { contactId: doc._id } } },
+    { session }
+  );
+});
+
 // Modelo de Mongoose
 export const Contact = mongoose.model('Contact', contactSchema);
 
@@ -0,0 +1,43 @@
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { documentSchema, objectIdSchema } from './common';
+
+// Piezas comunes de las etiquetas y los grupos de contactos: nombres propios
+// de cada usuario que se asignan a sus contactos
+
+// El nombre es único por usuario sin distinguir mayúsculas ni tildes
+export const LABEL_NAME_COLLATION = { locale: 'es', strength: 1 };
+
+export const labelNameSchema = (label: string, max: number) => z.string().trim()
+  .min(1, `El nombre ${label} es obligatorio`)
+  .max(max, `El nombre ${label} no puede superar ${max} caracteres`);
+
+export const labelResponseSchema = documentSchema.extend({
+  userId: objectIdSchema,
+  name: z.string(),
+});
+
+/**
+ * Esquema de Mongoose con el propietario, el nombre y el índice único del
+ * nombre, más los campos propios de cada tipo de etiqueta.
+ */
+export const createLabelSchema = <T extends mongoose.SchemaDefinition>(label: string, fields: T) => {
+  const schema = new mongoose.Schema({
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'El ID del usuario es obligatorio'],
+      index: true
+    },
+    name: {
+      type: String,
+      required: [true, `El nombre ${label} es obligatorio`],
+      trim: true
+    },
+    ...fields
+  }, { timestamps: true });
+
+  schema.index({ userId: 1, name: 1 }, { unique: true, collation: LABEL_NAME_COLLATION });
+
+  return schema;
+};
@@ -1,19 +1,159 @@
 import mongoose from 'mongoose';
 import { z } from 'zod';
+import { dateTimeSchema, documentSchema, objectIdSchema } from './common';
+import { PARTICIPANT_ROLES, type ParticipantRole } from './chat';
+import { sendAtSchema } from './scheduled-message';
+
+// Dirección del mensaje: 'incoming' lo envía el contacto, 'outgoing' el usuario
+export const MESSAGE_DIRECTIONS = ['incoming', 'outgoing'] as const;
+
+export type MessageDirection = typeof MESSAGE_DIRECTIONS[number];
+
+// Estado de entrega: enviado, entregado al destinatario y leído
+export const MESSAGE_STATUSES = ['sent', 'delivered', 'read'] as const;
+
+export type MessageStatus = typeof MESSAGE_STATUSES[number];
+
+// Tipo de mensaje: 'text' lo escribe un participante, 'system' lo genera la
+// aplicación para dejar constancia de cambios en el grupo
+export const MESSAGE_TYPES = ['text', 'system'] as const;
+
+export type MessageType = typeof MESSAGE_TYPES[number];
+
+// Eventos que registran los mensajes del sistema
+export const SYSTEM_EVENTS = [
+  'group.created',
+  'group.updated',
+  'participant.added',
+  'participant.removed',
+  'participant.role_changed'
+] as const;
+
+export type SystemEvent = {
+  action: typeof SYSTEM_EVENTS[number];
+  contactId?: mongoose.Types.ObjectId;
+  role?: ParticipantRole;
+};
 
 // Esquema de validación con Zod
 export const messageValidationSchema = z.object({
-  chatId: z.string().min(1, 'El ID del chat es obligatorio'),
-  content: z.string().min(1, 'El contenido del mensaje no puede estar vacío'),
-  isContactMessage: z.boolean().default(() => Math.random() > 0.5),
+  chatId: z.string().min(1, 'El ID del chat es obligatorio')
+    .describe('ID del chat al que pertenece el mensaje'),
+  // Opcional si el mensaje lleva adjuntos (ver POST /messages)
+  content: z.string().min(1, 'El contenido del mensaje no puede estar vacío').optional()
+    .describe('Contenido del mensaje. Obligatorio salvo que se envíen adjuntos'),
+  direction: z.enum(MESSAGE_DIRECTIONS, {
+    required_error: 'La dirección del mensaje es obligatoria',
+    invalid_type_error: 'La dirección debe ser "incoming" o "outgoing"',
+  }).describe('Indica si el mensaje lo envía el contacto (incoming) o el usuario (outgoing)'),
+  // Si se indica, debe coincidir con el participante que corresponde a la dirección
+  senderId: z.string().min(1, 'El ID del remitente no puede estar vacío').optional()
+    .describe('ID del remitente. Debe ser el contacto del chat si es incoming o el usuario si es outgoing. En los grupos es obligatorio en los mensajes incoming y debe ser un participante'),
   timestamp: z.union([z.string().datetime(), z.date()])
     .transform(val => typeof val === 'string' ? new Date(val) : val)
-    .optional(),
+    .optional()
+    .describe('Fecha y hora del mensaje (por defecto es ahora)'),
+  sendAt: sendAtSchema.optional()
+    .describe('Programa el mensaje para esta fecha futura en lugar de enviarlo ahora. Solo mensajes salientes sin adjuntos'),
   // No incluimos _id aquí ya que es generado por MongoDB
 });
 
 export type MessageInput = z.infer<typeof messageValidationSchema>;
 
+// Esquema de respuesta (documentación OpenAPI)
+export const messageResponseSchema = documentSchema.extend({
+  chatId: objectIdSchema,
+  type: z.enum(MESSAGE_TYPES),
+  event: z.object({
+    action: z.enum(SYSTEM_EVENTS),
+    contactId: objectIdSchema.optional(),
+    role: z.enum(PARTICIPANT_ROLES).optional(),
+  }).optional().describe('Evento registrado por un mensaje del sistema'),
+  direction: z.enum(MESSAGE_DIRECTIONS),
+  senderId: objectIdSchema,
+  content: z.string().describe('Vacío si el mensaje se eliminó para todos o solo tiene adjuntos'),
+  attachments: z.array(z.object({
+    _id: objectIdSchema,
+    storageKey: z.string().describe('Clave del fichero en el almacenamiento'),
+    fileName: z.string(),
+    mimeType: z.string(),
+    size: z.number().int().describe('Tamaño en bytes'),
+    checksum: z.string().describe('SHA-256 en hexadecimal'),
+    width: z.number().int().nullable().describe('Ancho en píxeles de las imágenes'),
+    height: z.number().int().nullable().describe('Alto en píxeles de las imágenes'),
+  })).describe('Ficheros adjuntos; se descargan con GET /messages/{id}/attachments/{attachmentId}'),
+  status: z.enum(MESSAGE_STATUSES),
+  deliveredAt: dateTimeSchema.nullable(),
+  readAt: dateTimeSchema.nullable(),
+  editHistory: z.array(z.object({
+    content: z.string(),
+    editedAt: dateTimeSchema,
+  })).describe('Versiones anteriores del contenido'),
+  editedAt: dateTimeSchema.nullable(),
+  deletedAt: dateTimeSchema.nullable(),
+  hiddenFor: z.array(objectIdSchema),
+  timestamp: dateTimeSchema,
+});
+
+// Edición del contenido de un mensaje
+export const messageUpdateValidationSchema = z.object({
+  content: z.string().min(1, 'El contenido del mensaje no puede estar vacío')
+    .describe('Nuevo contenido del mensaje'),
+});
+
+export type MessageUpdateInput = z.infer<typeof messageUpdateValidationSchema>;
+
+// Confirmación de entrega o lectura de un mensaje enviado por el usuario
+export const messageStatusValidationSchema = z.object({
+  status: z.enum(['delivered', 'read'], {
+    required_error: 'El estado es obligatorio',
+    invalid_type_error: 'El estado debe ser "delivered" o "read"',
+  }),
+  at: z.union([z.string().datetime(), z.date()])
+    .transform(val => typeof val === 'string' ? new Date(val) : val)
+    .optional()
+    .describe('Momento de la entrega o lectura (por defecto es ahora)'),
+});
+
+export type MessageStatusInput = z.infer<typeof messageStatusValidationSchema>;
+
+// Modos de borrado: 'me' oculta el mensaje al usuario, 'everyone' lo deja como
+// lápida (sin contenido) para todos
+export const messageDeleteQuerySchema = z.object({
+  mode: z.enum(['me', 'everyone'], {
+    errorMap: () => ({ message: 'El modo debe ser "me" o "everyone"' })
+  }).default('me').describe('Borrado solo para el usuario (me) o para todos (everyone)'),
+});
+
+export type MessageDeleteQuery = z.infer<typeof messageDeleteQuerySchema>;
+
+// Parámetros de paginación por cursor del historial de un chat.
+// El cursor puede ser el ID de un mensaje o una fecha ISO.
+export const messagePageQuerySchema = z.object({
+  cursor: z.string().min(1, 'El cursor no puede estar vacío').optional()
+    .describe('ID de un mensaje o fecha ISO desde la que paginar. Sin cursor se devuelven los últimos mensajes (before) o los primeros (after)'),
+  direction: z.enum(['before', 'after'], {
+    errorMap: () => ({ message: 'La dirección debe ser "before" o "after"' })
+  }).default('before').describe('Mensajes anteriores (before) o posteriores (after) al cursor'),
+  limit: z.coerce.number()
+    .int('El límite debe ser un número entero')
+    .min(1, 'El límite debe ser al menos 1')
+    .max(100, 'El límite no puede superar 100')
+    .default(50)
+    .describe('Número máximo de mensajes por página'),
+});
+
+export type MessagePageQuery = z.infer<typeof messagePageQuerySchema>;
+
+// Página de mensajes en orden cronológico ascendente
+export const messagePageResponseSchema = z.object({
+  count: z.number().int(),
+  chatId: objectIdSchema,
+  data: z.array(messageResponseSchema),
+  nextCursor: objectIdSchema.nullable().describe('Cursor para cargar mensajes más recientes (direction=after)'),
+  prevCursor: objectIdSchema.nullable().describe('Cursor para cargar mensajes más antiguos (direction=before)'),
+});
+
 // Esquema de Mongoose
 const messageSchema = new mongoose.Schema({
   chatId: { 
@@ -21,16 +161,81 @@ const messageSchema = new mongoose.Schema({
     ref: 'Chat',
     required: [true, 'El ID del chat es obligatorio']
   },
-  isContactMessage: {
-    type: Boolean,
-    required: true,
-    default: () => Math.random() > 0.5
+  type: {
+    type: String,
+    enum: MESSAGE_TYPES,
+    default: 'text'
+  },
+  // Solo en los mensajes del sistema
+  event: {
+    type: new mongoose.Schema({
+      action: { type: String, enum: SYSTEM_EVENTS, required: true },
+      contactId: { type: mongoose.Schema.Types.ObjectId, ref: 'Contact' },
+      role: { type: String, enum: PARTICIPANT_ROLES }
+    }, { _id: false }),
+    default: undefined
+  },
+  direction: {
+    type: String,
+    enum: MESSAGE_DIRECTIONS,
+    required: [true, 'La dirección del mensaje es obligatoria']
+  },
+  // ID del contacto (incoming) o del usuario (outgoing) que envía el mensaje
+  senderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: [true, 'El ID del remitente es obligatorio']
   },
   content: { 
     type: String, 
-    required: [true, 'El contenido del mensaje es obligatorio'],
+    // Los mensajes eliminados para todos conservan el documento sin contenido
+    // y los que llevan adjuntos pueden no tener texto
+    required: [function(this: { deletedAt?: Date | null; attachments?: unknown[] }) {
+      return !this.deletedAt && !this.attachments?.length;
+    }, 'El contenido del mensaje es obligatorio'],
     trim: true
   },
+  attachments: [{
+    storageKey: { type: String, required: true },
+    fileName: { type: String, required: true, trim: true },
+    mimeType: { type: String, required: true },
+    size: { type: Number, required: true, min: 0 },
+    checksum: { type: String, required: true },
+    width: { type: Number, default: null },
+    height: { type: Number, default: null }
+  }],
+  status: {
+    type: String,
+    enum: MESSAGE_STATUSES,
+    default: 'sent'
+  },
+  deliveredAt: {
+    type: Date,
+    default: null
+  },
+  readAt: {
+    type: Date,
+    default: null
+  },
+  // Versiones anteriores del contenido, de la más antigua a la más reciente
+  editHistory: [{
+    _id: false,
+    content: { type: String, required: true },
+    editedAt: { type: Date, required: true }
+  }],
+  editedAt: {
+    type: Date,
+    default: null
+  },
+  // Borrado para todos: el mensaje queda como lápida en el historial
+  deletedAt: {
+    type: Date,
+    default: null
+  },
+  // Usuarios que han eliminado el mensaje solo para ellos
+  hiddenFor: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }],
   timestamp: { 
     type: Date, 
     default: Date.now,
@@ -44,8 +249,15 @@ const messageSchema = new mongoose.Schema({
   }
 });
 
-// Índice para búsquedas por chat
-messageSchema.index({ chatId: 1, timestamp: 1 });
+// Índice para búsquedas por chat. Se incluye _id para desempatar mensajes
+// con la misma fecha en la paginación por cursor sin ordenar en memoria.
+messageSchema.index({ chatId: 1, timestamp: 1, _id: 1 });
+
+// Índice para contar y marcar los mensajes no leídos
+messageSchema.index({ chatId: 1, direction: 1, status: 1 });
+
+// Índice de texto para la búsqueda por contenido
+messageSchema.index({ content: 'text' }, { default_language: 'spanish', name: 'message_text' });
 
 // Middleware para formatear la salida
 messageSchema.set('toJSON', {
@@ -0,0 +1,110 @@
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { dateTimeSchema, documentSchema, objectIdSchema } from './common';
+
+// Estados de un mensaje programado. Solo los pendientes se pueden
+// reprogramar o cancelar; processing indica que el dispatcher lo está enviando
+export const SCHEDULED_STATUSES = ['pending', 'processing', 'sent', 'cancelled', 'failed'] as const;
+
+export type ScheduledStatus = typeof SCHEDULED_STATUSES[number];
+
+// Fecha de envío de un mensaje programado; debe estar en el futuro
+export const sendAtSchema = z.union([z.string().datetime(), z.date()], {
+  errorMap: () => ({ message: 'La fecha de envío debe ser una fecha ISO 8601' })
+})
+  .transform(val => typeof val === 'string' ? new Date(val) : val)
+  .refine(date => date.getTime() > Date.now(), 'La fecha de envío debe ser futura');
+
+// Reprogramar un mensaje pendiente: nueva fecha y, opcionalmente, nuevo contenido
+export const scheduledMessageUpdateValidationSchema = z.object({
+  sendAt: sendAtSchema.optional().describe('Nueva fecha de envío'),
+  content: z.string().min(1, 'El contenido del mensaje no puede estar vacío').optional(),
+}).refine(data => data.sendAt !== undefined || data.content !== undefined, {
+  message: 'Debe indicarse la fecha de envío o el contenido',
+});
+
+export type ScheduledMessageUpdateInput = z.infer<typeof scheduledMessageUpdateValidationSchema>;
+
+export const scheduledMessageListQuerySchema = z.object({
+  chatId: objectIdSchema.optional().describe('Solo los mensajes programados de este chat'),
+  status: z.enum(SCHEDULED_STATUSES, {
+    errorMap: () => ({ message: `El estado debe ser uno de: ${SCHEDULED_STATUSES.join(', ')}` })
+  }).default('pending').describe('Estado de los mensajes programados'),
+});
+
+export type ScheduledMessageListQuery = z.infer<typeof scheduledMessageListQuerySchema>;
+
+export const scheduledMessageResponseSchema = documentSchema.extend({
+  userId: objectIdSchema,
+  chatId: objectIdSchema,
+  content: z.string(),
+  sendAt: dateTimeSchema,
+  status: z.enum(SCHEDULED_STATUSES),
+  messageId: objectIdSchema.describe('ID que tendrá el mensaje al enviarse'),
+  attempts: z.number().int(),
+  nextAttemptAt: dateTimeSchema.nullable().describe('Fecha del siguiente intento tras un fallo'),
+  sentAt: dateTimeSchema.nullable(),
+  error: z.string().nullable().describe('Motivo del último fallo de envío'),
+});
+
+// Esquema de Mongoose
+const scheduledMessageSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'El ID del usuario es obligatorio']
+  },
+  chatId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Chat',
+    required: [true, 'El ID del chat es obligatorio']
+  },
+  content: {
+    type: String,
+    required: [true, 'El contenido del mensaje es obligatorio']
+  },
+  sendAt: {
+    type: Date,
+    required: [true, 'La fecha de envío es obligatoria']
+  },
+  status: {
+    type: String,
+    enum: SCHEDULED_STATUSES,
+    default: 'pending'
+  },
+  // Se reserva al programar para que un reintento tras una caída no duplique el mensaje
+  messageId: {
+    type: mongoose.Schema.Types.ObjectId,
+    default: () => new mongoose.Types.ObjectId()
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  // Tras un fallo, el envío no se reintenta hasta esta fecha
+  nextAttemptAt: {
+    type: Date,
+    default: null
+  },
+  lockedAt: {
+    type: Date,
+    default: null
+  },
+  sentAt: {
+    type: Date,
+    default: null
+  },
+  error: {
+    type: String,
+    default: null
+  }
+}, { timestamps: true });
+
+// El dispatcher busca los pendientes vencidos; los listados filtran por usuario y chat
+scheduledMessageSchema.index({ status: 1, sendAt: 1 });
+scheduledMessageSchema.index({ userId: 1, status: 1, sendAt: 1 });
+scheduledMessageSchema.index({ chatId: 1 });
+
+export const ScheduledMessage = mongoose.model('ScheduledMessage', scheduledMessageSchema);
+
+export default ScheduledMessage;
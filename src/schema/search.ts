@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { MESSAGE_DIRECTIONS, messageResponseSchema } from './message';
+import { contactResponseSchema } from './contact';
+
+// Parámetros de búsqueda de texto en mensajes y contactos
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(2, 'La búsqueda debe tener al menos 2 caracteres')
+    .describe('Texto a buscar. Admite frases entre comillas y términos excluidos con -'),
+  type: z.enum(['all', 'messages', 'contacts'], {
+    errorMap: () => ({ message: 'El tipo debe ser "all", "messages" o "contacts"' })
+  }).default('all').describe('Qué buscar'),
+  chatId: z.string().min(1, 'El ID del chat no puede estar vacío').optional()
+    .describe('Limitar los mensajes a un chat'),
+  direction: z.enum(MESSAGE_DIRECTIONS, {
+    errorMap: () => ({ message: 'La dirección debe ser "incoming" o "outgoing"' })
+  }).optional().describe('Limitar los mensajes a los del contacto (incoming) o del usuario (outgoing)'),
+  from: z.coerce.date({ errorMap: () => ({ message: 'La fecha inicial no es válida' }) }).optional()
+    .describe('Fecha mínima de los mensajes'),
+  to: z.coerce.date({ errorMap: () => ({ message: 'La fecha final no es válida' }) }).optional()
+    .describe('Fecha máxima de los mensajes'),
+  page: z.coerce.number()
+    .int('La página debe ser un número entero')
+    .min(1, 'La página debe ser al menos 1')
+    .default(1),
+  limit: z.coerce.number()
+    .int('El límite debe ser un número entero')
+    .min(1, 'El límite debe ser al menos 1')
+    .max(50, 'El límite no puede superar 50')
+    .default(20),
+}).refine(query => !query.from || !query.to || query.from <= query.to, {
+  message: 'La fecha inicial debe ser anterior a la final',
+  path: ['from'],
+});
+
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+
+// Cada resultado lleva la relevancia y un fragmento con las coincidencias en <mark>
+const searchHitSchema = z.object({
+  score: z.number(),
+  snippet: z.string(),
+});
+
+const searchPageSchema = <T extends z.ZodTypeAny>(item: T) => z.object({
+  total: z.number().int(),
+  page: z.number().int(),
+  limit: z.number().int(),
+  data: z.array(item),
+}).nullable().describe('null si la sección no se pidió con type');
+
+export const searchResponseSchema = z.object({
+  query: z.string(),
+  messages: searchPageSchema(messageResponseSchema.merge(searchHitSchema)),
+  contacts: searchPageSchema(contactResponseSchema.merge(searchHitSchema)),
+});
@@ -0,0 +1,53 @@
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { objectIdSchema } from './common';
+import { createLabelSchema, labelNameSchema, labelResponseSchema } from './label';
+
+// Etiquetas definidas por el usuario para agrupar y segmentar sus contactos
+export const tagValidationSchema = z.object({
+  name: labelNameSchema('de la etiqueta', 40),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i, 'El color debe tener el formato #RRGGBB')
+    .nullable()
+    .optional()
+    .describe('Color de la etiqueta en hexadecimal, por ejemplo #1e88e5'),
+});
+
+export type TagInput = z.infer<typeof tagValidationSchema>;
+
+export const tagUpdateValidationSchema = tagValidationSchema.partial()
+  .refine(data => data.name !== undefined || data.color !== undefined, {
+    message: 'Debe indicarse el nombre o el color de la etiqueta',
+  });
+
+export type TagUpdateInput = z.infer<typeof tagUpdateValidationSchema>;
+
+export const tagResponseSchema = labelResponseSchema.extend({
+  color: z.string().nullable(),
+});
+
+export const tagWithCountResponseSchema = tagResponseSchema.extend({
+  contactCount: z.number().int().describe('Contactos con esta etiqueta'),
+});
+
+// Filtro de segmentación común a los listados de contactos y de chats
+export const contactSegmentQuerySchema = z.object({
+  tag: objectIdSchema.optional().describe('Solo contactos con esta etiqueta'),
+  group: objectIdSchema.optional().describe('Solo contactos de este grupo de contactos'),
+  favorite: z.enum(['true', 'false'], {
+    errorMap: () => ({ message: 'El filtro favorite debe ser "true" o "false"' })
+  }).optional().describe('Solo favoritos (true) o solo no favoritos (false)'),
+});
+
+export type ContactSegmentQuery = z.infer<typeof contactSegmentQuerySchema>;
+
+// Esquema de Mongoose
+const tagSchema = createLabelSchema('de la etiqueta', {
+  color: {
+    type: String,
+    default: null
+  }
+});
+
+export const Tag = mongoose.model('Tag', tagSchema);
+
+export default Tag;
@@ -0,0 +1,109 @@
+import mongoose, { Document } from 'mongoose';
+import { z } from 'zod';
+import { documentSchema } from './common';
+
+// Roles de usuario: los administradores acceden a las rutas de /admin
+export const USER_ROLES = ['user', 'admin'] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+// Interfaz para el documento User
+interface IUser extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  email: string;
+  password: string;
+  role: UserRole;
+  createdAt: Date;
+  updatedAt: Date;
+  comparePassword(candidate: string): Promise<boolean>;
+}
+
+// Esquemas de validación con Zod
+export const registerValidationSchema = z.object({
+  name: z.string().min(2, 'El nombre debe tener al menos 2 caracteres'),
+  email: z.string().email('Correo electrónico no válido'),
+  password: z.string().min(8, 'La contraseña debe tener al menos 8 caracteres'),
+});
+
+export const loginValidationSchema = z.object({
+  email: z.string().email('Correo electrónico no válido'),
+  password: z.string().min(1, 'La contraseña es obligatoria'),
+});
+
+export type RegisterInput = z.infer<typeof registerValidationSchema>;
+export type LoginInput = z.infer<typeof loginValidationSchema>;
+
+// Esquema de respuesta (documentación OpenAPI). Nunca incluye la contraseña.
+export const userResponseSchema = documentSchema.extend({
+  name: z.string(),
+  email: z.string().email(),
+  role: z.enum(USER_ROLES),
+});
+
+export const authResponseSchema = z.object({
+  message: z.string(),
+  token: z.string().describe('Token de acceso para la cabecera Authorization: Bearer'),
+  data: userResponseSchema,
+});
+
+// Esquema de Mongoose
+const userSchema = new mongoose.Schema<IUser>({
+  name: {
+    type: String,
+    required: [true, 'El nombre es requerido'],
+    trim: true
+  },
+  email: {
+    type: String,
+    required: [true, 'El correo electrónico es requerido'],
+    unique: true,
+    trim: true,
+    lowercase: true
+  },
+  // Nunca se devuelve en las consultas salvo que se pida explícitamente
+  password: {
+    type: String,
+    required: [true, 'La contraseña es requerida'],
+    select: false
+  },
+  // Solo se asigna manualmente en la base de datos
+  role: {
+    type: String,
+    enum: USER_ROLES,
+    default: 'user'
+  }
+}, {
+  timestamps: {
+    createdAt: 'createdAt',
+    updatedAt: 'updatedAt'
+  }
+});
+
+// Middleware para guardar la contraseña hasheada
+userSchema.pre<IUser>('save', async function(next) {
+  if (this.isModified('password')) {
+    this.password = await Bun.password.hash(this.password);
+  }
+  next();
+});
+
+userSchema.methods.comparePassword = function(this: IUser, candidate: string) {
+  return Bun.password.verify(candidate, this.password);
+};
+
+// Middleware para formatear la salida. toJSON y toObject usan la misma
+// transformación para que el usuario tenga siempre la forma documentada (_id)
+const hidePassword = (doc: unknown, ret: Record<string, any>) => {
+  delete ret.password;
+  delete ret.__v;
+  return ret;
+};
+
+userSchema.set('toJSON', { transform: hidePassword });
+userSchema.set('toObject', { transform: hidePassword });
+
+// Modelo de Mongoose
+export const User = mongoose.model<IUser>('User', userSchema);
+
+export default User;
@@ -0,0 +1,197 @@
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { dateTimeSchema, documentSchema, objectIdSchema } from './common';
+import { isPrivateUrl } from '../utils/network';
+
+// Eventos a los que se puede suscribir un webhook
+export const WEBHOOK_EVENTS = [
+  'message.created',
+  'message.updated',
+  'message.deleted',
+  'contact.created',
+  'contact.updated',
+  'contact.deleted',
+  'chat.archived',
+  'chat.unarchived',
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+// Estados de una entrega: pending espera su (re)intento, processing se está enviando
+export const DELIVERY_STATUSES = ['pending', 'processing', 'succeeded', 'failed'] as const;
+
+export type DeliveryStatus = typeof DELIVERY_STATUSES[number];
+
+const webhookEventsSchema = z.array(z.enum(WEBHOOK_EVENTS, {
+  errorMap: () => ({ message: `El evento debe ser uno de: ${WEBHOOK_EVENTS.join(', ')}` })
+})).min(1, 'Debe indicarse al menos un evento');
+
+// Esquemas de validación con Zod
+export const webhookValidationSchema = z.object({
+  url: z.string().url('La URL del webhook no es válida')
+    .refine(url => /^https?:\/\//i.test(url), 'La URL debe usar http o https')
+    .refine(url => !isPrivateUrl(url), 'La URL no puede apuntar a una dirección privada o local')
+    .describe('URL que recibe los eventos por POST'),
+  events: webhookEventsSchema.describe('Eventos que se envían a la URL'),
+  secret: z.string().min(16, 'El secreto debe tener al menos 16 caracteres').optional()
+    .describe('Secreto para firmar los envíos. Si se omite se genera uno'),
+  description: z.string().max(200, 'La descripción no puede superar 200 caracteres').optional(),
+});
+
+export type WebhookInput = z.infer<typeof webhookValidationSchema>;
+
+export const webhookUpdateValidationSchema = webhookValidationSchema
+  .omit({ secret: true })
+  .partial()
+  .extend({
+    isActive: z.boolean().optional().describe('Los webhooks inactivos no reciben eventos'),
+  })
+  .refine(data => Object.values(data).some(value => value !== undefined), {
+    message: 'Debe indicarse al menos un campo a actualizar',
+  });
+
+export type WebhookUpdateInput = z.infer<typeof webhookUpdateValidationSchema>;
+
+export const deliveryListQuerySchema = z.object({
+  status: z.enum(DELIVERY_STATUSES, {
+    errorMap: () => ({ message: `El estado debe ser uno de: ${DELIVERY_STATUSES.join(', ')}` })
+  }).optional().describe('Solo las entregas con este estado'),
+  limit: z.coerce.number()
+    .int('El límite debe ser un número entero')
+    .min(1, 'El límite debe ser al menos 1')
+    .max(100, 'El límite no puede superar 100')
+    .default(50)
+    .describe('Número máximo de entregas, las más recientes primero'),
+});
+
+export type DeliveryListQuery = z.infer<typeof deliveryListQuerySchema>;
+
+// Esquemas de respuesta (documentación OpenAPI). El secreto solo se devuelve al crear
+export const webhookResponseSchema = documentSchema.extend({
+  userId: objectIdSchema,
+  url: z.string(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)),
+  description: z.string().nullable(),
+  isActive: z.boolean(),
+});
+
+export const webhookCreatedResponseSchema = webhookResponseSchema.extend({
+  secret: z.string().describe('Secreto de firma. Solo se muestra al crear el webhook'),
+});
+
+export const webhookDeliveryResponseSchema = documentSchema.extend({
+  webhookId: objectIdSchema,
+  eventId: z.string().describe('Identificador del evento; se mantiene al reenviar'),
+  event: z.enum(WEBHOOK_EVENTS),
+  payload: z.record(z.unknown()).describe('Cuerpo JSON enviado'),
+  status: z.enum(DELIVERY_STATUSES),
+  attempts: z.number().int(),
+  nextAttemptAt: dateTimeSchema.nullable(),
+  responseStatus: z.number().int().nullable().describe('Código HTTP de la última respuesta'),
+  error: z.string().nullable().describe('Motivo del último fallo'),
+  deliveredAt: dateTimeSchema.nullable(),
+  replayOf: objectIdSchema.nullable().describe('Entrega original si es un reenvío'),
+});
+
+// Esquemas de Mongoose
+const webhookSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'El ID del usuario es obligatorio']
+  },
+  url: {
+    type: String,
+    required: [true, 'La URL del webhook es obligatoria'],
+    trim: true
+  },
+  events: {
+    type: [{ type: String, enum: WEBHOOK_EVENTS }],
+    required: true
+  },
+  // No se incluye en las consultas salvo que se pida con select('+secret')
+  secret: {
+    type: String,
+    required: true,
+    select: false
+  },
+  description: {
+    type: String,
+    default: null
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, { timestamps: true });
+
+webhookSchema.index({ userId: 1, isActive: 1, events: 1 });
+
+const webhookDeliverySchema = new mongoose.Schema({
+  webhookId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Webhook',
+    required: true
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  eventId: {
+    type: String,
+    required: true
+  },
+  event: {
+    type: String,
+    enum: WEBHOOK_EVENTS,
+    required: true
+  },
+  payload: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: DELIVERY_STATUSES,
+    default: 'pending'
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  nextAttemptAt: {
+    type: Date,
+    default: Date.now
+  },
+  lockedAt: {
+    type: Date,
+    default: null
+  },
+  responseStatus: {
+    type: Number,
+    default: null
+  },
+  error: {
+    type: String,
+    default: null
+  },
+  deliveredAt: {
+    type: Date,
+    default: null
+  },
+  replayOf: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'WebhookDelivery',
+    default: null
+  }
+}, { timestamps: true });
+
+// El dispatcher busca las entregas vencidas; el registro se lista por webhook
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+webhookDeliverySchema.index({ webhookId: 1, createdAt: -1 });
+
+export const Webhook = mongoose.model('Webhook', webhookSchema);
+export const WebhookDelivery = mongoose.model('WebhookDelivery', webhookDeliverySchema);
+
+export default Webhook;
@@ -0,0 +1,86 @@
+import mongoose from 'mongoose';
+import { Chat } from '../schema/chat';
+import { Contact } from '../schema/contact';
+import { Message, type MessageDirection } from '../schema/message';
+import { sendMessage } from '../utils/messages';
+import { logger } from '../utils/logger';
+
+// Comprobación de concurrencia: envía muchos mensajes en paralelo al mismo
+// chat y verifica que messageCount, lastMessage y unreadCount quedan coherentes.
+// Las transacciones requieren un replica set: sirve una instancia local de
+// un solo nodo (mongod --replSet) o un MongoMemoryReplSet de
+// mongodb-memory-server. Trabaja con un usuario ficticio y borra sus datos al
+// terminar, pero no debe ejecutarse contra producción.
+const mongoUrl = process.env.MONGODB_URI || 'mongodb://localhost:27017/chat-app';
+const SENDS = Number(process.env.CONCURRENT_SENDS) || 50;
+
+const check = async () => {
+  await mongoose.connect(mongoUrl);
+  logger.info('Conectado a MongoDB');
+
+  const userId = new mongoose.Types.ObjectId();
+  // El middleware de Contact crea su chat directo
+  const contact = await new Contact({
+    userId,
+    name: 'Prueba de concurrencia',
+    email: `concurrencia-${userId}@example.com`,
+    phone: '600000000'
+  }).save();
+  const chat = await Chat.findOne({ contactId: contact._id });
+  if (!chat) {
+    throw new Error('No se creó el chat del contacto');
+  }
+
+  try {
+    // Las fechas son distintas y no siguen el orden de envío, para comprobar
+    // que lastMessage queda en el más reciente y no en el último confirmado
+    const start = Date.now();
+    const directions = Array.from({ length: SENDS }, (_, i): MessageDirection => (i % 2 === 0 ? 'incoming' : 'outgoing'));
+    const results = await Promise.all(directions.map((direction, i) =>
+      sendMessage(chat._id, {
+        content: `Mensaje ${i}`,
+        direction,
+        senderId: direction === 'incoming' ? contact._id : userId,
+        timestamp: new Date(start - i * 1000)
+      })
+    ));
+
+    // El primer mensaje es el de fecha más reciente
+    const newestId = results[0]!.message._id.toString();
+    const updated = await Chat.findById(chat._id);
+    const stored = await Message.countDocuments({ chatId: chat._id });
+    const expectedUnread = directions.filter(direction => direction === 'incoming').length;
+
+    const failures: string[] = [];
+    if (stored !== SENDS) {
+      failures.push(`mensajes guardados: ${stored}, esperados: ${SENDS}`);
+    }
+    if (updated?.messageCount !== SENDS) {
+      failures.push(`messageCount: ${updated?.messageCount}, esperados: ${SENDS}`);
+    }
+    if (updated?.unreadCount !== expectedUnread) {
+      failures.push(`unreadCount: ${updated?.unreadCount}, esperado: ${expectedUnread}`);
+    }
+    if (updated?.lastMessage?.toString() !== newestId) {
+      failures.push(`lastMessage: ${updated?.lastMessage}, esperado: ${newestId}`);
+    }
+
+    if (failures.length > 0) {
+      logger.error('Comprobación de concurrencia fallida', undefined, { sends: SENDS, failures });
+      process.exitCode = 1;
+    } else {
+      logger.info('Comprobación de concurrencia superada', { sends: SENDS, unreadCount: expectedUnread });
+    }
+  } finally {
+    await Message.deleteMany({ chatId: chat._id });
+    await Chat.deleteOne({ _id: chat._id });
+    await Contact.deleteOne({ _id: contact._id });
+  }
+};
+
+check()
+  .catch(error => {
+    logger.error('Error en la comprobación de concurrencia', error as Error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
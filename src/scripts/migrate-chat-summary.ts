@@ -0,0 +1,61 @@
+import mongoose from 'mongoose';
+import { Chat } from '../schema/chat';
+import { Contact } from '../schema/contact';
+import { Message } from '../schema/message';
+import { SUMMARY_FIELDS, chatSummary } from '../utils/messages';
+import { countUnread } from '../utils/receipts';
+import { logger } from '../utils/logger';
+
+// Migración: elimina el antiguo array Chat.messageIds y calcula los campos
+// resumen (último mensaje, vista previa, número de mensajes, mensajes sin
+// leer y datos del contacto) a partir de Message.chatId y Contact. Es idempotente: se puede
+// repetir para recalcular el resumen.
+const mongoUrl = process.env.MONGODB_URI || 'mongodb://localhost:27017/chat-app';
+
+const migrate = async () => {
+  await mongoose.connect(mongoUrl);
+  logger.info('Conectado a MongoDB');
+
+  // Se usa la colección directamente porque messageIds ya no existe en el esquema
+  const collection = Chat.collection;
+  let migrated = 0;
+
+  const cursor = Chat.find().select('_id userId contactId').lean().cursor();
+  for await (const chat of cursor) {
+    const visible = { chatId: chat._id, hiddenFor: { $ne: chat.userId } };
+
+    const [messageCount, unreadCount, latest, contact] = await Promise.all([
+      Message.countDocuments(visible),
+      countUnread(chat._id, chat.userId),
+      Message.findOne({ ...visible, deletedAt: null })
+        .sort({ timestamp: -1, _id: -1 })
+        .select(SUMMARY_FIELDS)
+        .lean(),
+      chat.contactId ? Contact.findById(chat.contactId).select('name isBlocked').lean() : null
+    ]);
+
+    await collection.updateOne(
+      { _id: chat._id },
+      {
+        $set: {
+          ...chatSummary(latest),
+          messageCount,
+          unreadCount,
+          contactName: contact?.name ?? null,
+          contactBlocked: contact?.isBlocked ?? false
+        },
+        $unset: { messageIds: '' }
+      }
+    );
+    migrated += 1;
+  }
+
+  logger.info('Migración del resumen de chats completada', { migrated });
+};
+
+migrate()
+  .catch(error => {
+    logger.error('Error en la migración del resumen de chats', error as Error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
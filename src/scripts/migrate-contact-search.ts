@@ -0,0 +1,49 @@
+import mongoose from 'mongoose';
+import { Contact, normalizeSearchText } from '../schema/contact';
+import { logger } from '../utils/logger';
+
+// Migración: rellena searchName en los contactos creados antes de la búsqueda
+// por prefijo. Es idempotente: solo toca contactos sin searchName.
+const mongoUrl = process.env.MONGODB_URI || 'mongodb://localhost:27017/chat-app';
+const BATCH_SIZE = 500;
+
+const migrate = async () => {
+  await mongoose.connect(mongoUrl);
+  logger.info('Conectado a MongoDB');
+
+  // Los índices del listado se crean antes de que la aplicación los necesite
+  await Contact.syncIndexes();
+
+  const cursor = Contact.find({ searchName: { $exists: false } }).select('name').lean().cursor();
+  let batch: Parameters<typeof Contact.bulkWrite>[0] = [];
+  let migrated = 0;
+
+  const flush = async () => {
+    if (batch.length === 0) return;
+    const result = await Contact.bulkWrite(batch, { ordered: false });
+    migrated += result.modifiedCount;
+    batch = [];
+  };
+
+  for await (const contact of cursor) {
+    batch.push({
+      updateOne: {
+        filter: { _id: contact._id },
+        update: { $set: { searchName: normalizeSearchText(contact.name) } }
+      }
+    });
+    if (batch.length >= BATCH_SIZE) {
+      await flush();
+    }
+  }
+  await flush();
+
+  logger.info('Migración de búsqueda de contactos completada', { migrated });
+};
+
+migrate()
+  .catch(error => {
+    logger.error('Error en la migración de búsqueda de contactos', error as Error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
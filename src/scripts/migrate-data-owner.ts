@@ -0,0 +1,102 @@
+import mongoose from 'mongoose';
+import { Chat } from '../schema/chat';
+import { Contact } from '../schema/contact';
+import { User } from '../schema/user';
+import { logger } from '../utils/logger';
+
+// Migración: adapta los datos anteriores a las cuentas de usuario.
+// - Elimina el índice único global email_1 de contactos, que impedía que dos
+//   usuarios tuvieran un contacto con el mismo correo y exponía el duplicado.
+// - Asigna los contactos y chats sin userId al usuario de MIGRATION_OWNER_EMAIL.
+// Es idempotente: solo toca documentos sin propietario. Debe ejecutarse antes
+// de migrate:message-direction para que los mensajes salientes reciban senderId.
+const mongoUrl = process.env.MONGODB_URI || 'mongodb://localhost:27017/chat-app';
+const ownerEmail = process.env.MIGRATION_OWNER_EMAIL;
+
+const LEGACY_EMAIL_INDEX = 'email_1';
+const withoutOwner = { $or: [{ userId: { $exists: false } }, { userId: null }] };
+
+const dropLegacyEmailIndex = async () => {
+  const indexes = await Contact.collection.indexes();
+  if (!indexes.some(index => index.name === LEGACY_EMAIL_INDEX)) {
+    return false;
+  }
+
+  await Contact.collection.dropIndex(LEGACY_EMAIL_INDEX);
+  return true;
+};
+
+const migrate = async () => {
+  await mongoose.connect(mongoUrl);
+  logger.info('Conectado a MongoDB');
+
+  const droppedIndex = await dropLegacyEmailIndex();
+
+  // Se usan las colecciones directamente: los documentos antiguos no
+  // cumplen el esquema actual (userId es obligatorio)
+  const pendingContacts = await Contact.collection.countDocuments(withoutOwner);
+  const pendingChats = await Chat.collection.countDocuments(withoutOwner);
+
+  if (pendingContacts === 0 && pendingChats === 0) {
+    logger.info('Migración de propietario completada', { droppedIndex, contacts: 0, chats: 0 });
+    return;
+  }
+
+  if (!ownerEmail) {
+    throw new Error('Falta la variable MIGRATION_OWNER_EMAIL con el correo del propietario de los datos antiguos');
+  }
+
+  const owner = await User.findOne({ email: ownerEmail.toLowerCase() }).select('_id');
+  if (!owner) {
+    throw new Error(`No existe ningún usuario con el correo ${ownerEmail}`);
+  }
+
+  // Los contactos se asignan uno a uno: si el propietario ya tiene un
+  // contacto con el mismo correo, el índice { userId, email } lo rechaza
+  // y el contacto antiguo se deja sin asignar para revisarlo a mano
+  let contacts = 0;
+  const conflicts: string[] = [];
+  const cursor = Contact.collection.find(withoutOwner).project({ _id: 1 });
+
+  for await (const contact of cursor) {
+    try {
+      const result = await Contact.collection.updateOne(
+        { _id: contact._id, ...withoutOwner },
+        { $set: { userId: owner._id } }
+      );
+      contacts += result.modifiedCount;
+    } catch (error) {
+      if (error instanceof mongoose.mongo.MongoServerError && error.code === 11000) {
+        conflicts.push(contact._id.toString());
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  if (conflicts.length > 0) {
+    logger.warn('Contactos sin asignar: el propietario ya tiene un contacto con el mismo correo', {
+      contactIds: conflicts
+    });
+  }
+
+  const chats = await Chat.collection.updateMany(withoutOwner, { $set: { userId: owner._id } });
+
+  // Crea los índices por usuario que falten y elimina los que ya no están en el esquema
+  await Contact.syncIndexes();
+
+  logger.info('Migración de propietario completada', {
+    droppedIndex,
+    owner: owner._id.toString(),
+    contacts,
+    chats: chats.modifiedCount,
+    skipped: conflicts.length
+  });
+};
+
+migrate()
+  .catch(error => {
+    logger.error('Error en la migración de propietario', error as Error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,58 @@
+import mongoose from 'mongoose';
+import { Chat } from '../schema/chat';
+import { Message } from '../schema/message';
+import { logger } from '../utils/logger';
+
+// Migración: convierte el antiguo campo booleano isContactMessage en
+// direction/senderId. Es idempotente: solo toca mensajes sin direction.
+const mongoUrl = process.env.MONGODB_URI || 'mongodb://localhost:27017/chat-app';
+
+const migrate = async () => {
+  await mongoose.connect(mongoUrl);
+  logger.info('Conectado a MongoDB');
+
+  // Se usa la colección directamente porque isContactMessage ya no existe en el esquema
+  const collection = Message.collection;
+  let migrated = 0;
+  let skipped = 0;
+
+  const chats = await Chat.find().select('_id contactId userId').lean();
+
+  for (const chat of chats) {
+    const pending = { chatId: chat._id, direction: { $exists: false } };
+
+    const incoming = await collection.updateMany(
+      { ...pending, isContactMessage: true },
+      { $set: { direction: 'incoming', senderId: chat.contactId }, $unset: { isContactMessage: '' } }
+    );
+    migrated += incoming.modifiedCount;
+
+    // Los chats creados antes de las cuentas de usuario no tienen propietario
+    if (!chat.userId) {
+      const orphaned = await collection.countDocuments({ ...pending, isContactMessage: { $ne: true } });
+      if (orphaned > 0) {
+        logger.warn('Chat sin usuario: mensajes salientes sin migrar', {
+          chatId: chat._id.toString(),
+          count: orphaned
+        });
+        skipped += orphaned;
+      }
+      continue;
+    }
+
+    const outgoing = await collection.updateMany(
+      { ...pending, isContactMessage: { $ne: true } },
+      { $set: { direction: 'outgoing', senderId: chat.userId }, $unset: { isContactMessage: '' } }
+    );
+    migrated += outgoing.modifiedCount;
+  }
+
+  logger.info('Migración de dirección de mensajes completada', { migrated, skipped });
+};
+
+migrate()
+  .catch(error => {
+    logger.error('Error en la migración de dirección de mensajes', error as Error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
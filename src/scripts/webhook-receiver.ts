@@ -0,0 +1,57 @@
+import { timingSafeEqual } from 'node:crypto';
+import { signPayload } from '../utils/webhooks';
+import { logger } from '../utils/logger';
+
+// Receptor local para probar los webhooks: comprueba la firma de cada envío y
+// registra el evento. Arrancar la API con WEBHOOK_ALLOWED_HOSTS=localhost,
+// registrar un webhook con la URL http://localhost:4000 y arrancarlo con el
+// secreto devuelto:
+//   WEBHOOK_SECRET=<secreto> bun run webhook:receiver
+// Con WEBHOOK_RECEIVER_STATUS (por ejemplo 500) responde siempre ese estado
+// para comprobar los reintentos.
+const port = Number(process.env.WEBHOOK_RECEIVER_PORT) || 4000;
+const secret = process.env.WEBHOOK_SECRET;
+const forcedStatus = Number(process.env.WEBHOOK_RECEIVER_STATUS) || null;
+
+// Se rechazan envíos firmados hace más de 5 minutos
+const MAX_SKEW_SECONDS = 300;
+
+if (!secret) {
+  logger.error('Falta la variable WEBHOOK_SECRET con el secreto del webhook');
+  process.exit(1);
+}
+
+const isValidSignature = (header: string | null, timestamp: number, body: string) => {
+  if (!header?.startsWith('sha256=')) return false;
+
+  const encoder = new TextEncoder();
+  const expected = encoder.encode(signPayload(secret, timestamp, body));
+  const received = encoder.encode(header.slice('sha256='.length));
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
+
+Bun.serve({
+  port,
+  async fetch(request) {
+    const body = await request.text();
+    const timestamp = Number(request.headers.get('x-webhook-timestamp'));
+    const meta = {
+      event: request.headers.get('x-webhook-event'),
+      delivery: request.headers.get('x-webhook-delivery')
+    };
+
+    if (!timestamp || Math.abs(Date.now() / 1000 - timestamp) > MAX_SKEW_SECONDS) {
+      logger.warn('Envío rechazado: marca de tiempo ausente o caducada', meta);
+      return new Response('Marca de tiempo no válida', { status: 400 });
+    }
+    if (!isValidSignature(request.headers.get('x-webhook-signature'), timestamp, body)) {
+      logger.warn('Envío rechazado: firma no válida', meta);
+      return new Response('Firma no válida', { status: 401 });
+    }
+
+    logger.info('Evento recibido', { ...meta, payload: JSON.parse(body) });
+    return new Response(null, { status: forcedStatus ?? 204 });
+  }
+});
+
+logger.info(`Receptor de webhooks escuchando en http://localhost:${port}`);
@@ -0,0 +1,214 @@
+import { storage } from './storage';
+import { ValidationError } from './errors';
+import { logger } from './logger';
+
+// Límites de los adjuntos, configurables por entorno
+export const ATTACHMENT_MAX_BYTES = Number(process.env.ATTACHMENT_MAX_BYTES) || 10 * 1024 * 1024;
+export const ATTACHMENT_MAX_FILES = Number(process.env.ATTACHMENT_MAX_FILES) || 5;
+
+// Tipos de fichero admitidos
+export const ATTACHMENT_MIME_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'audio/mpeg',
+  'audio/ogg',
+  'video/mp4'
+] as const;
+
+export type AttachmentMimeType = typeof ATTACHMENT_MIME_TYPES[number];
+
+export type AttachmentMetadata = {
+  storageKey: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  checksum: string;
+  width: number | null;
+  height: number | null;
+};
+
+type Dimensions = { width: number; height: number };
+
+// Lee el ancho y alto de la cabecera de una imagen PNG, GIF, JPEG o WebP
+export const readImageDimensions = (bytes: Uint8Array): Dimensions | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+  // PNG: la cabecera IHDR empieza en el byte 16
+  if (bytes.length >= 24 && ascii(1, 4) === 'PNG') {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  // GIF: ancho y alto en little endian tras la firma
+  if (bytes.length >= 10 && ascii(0, 3) === 'GIF') {
+    return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+
+  // WebP: formato con pérdida (VP8), sin pérdida (VP8L) o extendido (VP8X)
+  if (bytes.length >= 30 && ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+    const chunk = ascii(12, 16);
+    if (chunk === 'VP8 ') {
+      return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+    }
+    if (chunk === 'VP8L') {
+      const bits = view.getUint32(21, true);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === 'VP8X') {
+      const width = (bytes[24]! | (bytes[25]! << 8) | (bytes[26]! << 16)) + 1;
+      const height = (bytes[27]! | (bytes[28]! << 8) | (bytes[29]! << 16)) + 1;
+      return { width, height };
+    }
+    return null;
+  }
+
+  // JPEG: se recorren los segmentos hasta el marcador SOF
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1]!;
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+      if (isStartOfFrame) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  }
+
+  return null;
+};
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  bytes.length >= offset + signature.length && signature.every((byte, i) => bytes[offset + i] === byte);
+
+const startsWithText = (bytes: Uint8Array, text: string, offset = 0) =>
+  startsWith(bytes, [...text].map(char => char.charCodeAt(0)), offset);
+
+// Texto UTF-8 válido y sin bytes nulos, que delatan un fichero binario
+const isPlainText = (bytes: Uint8Array) => {
+  if (bytes.includes(0)) return false;
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Firma del contenido de cada tipo admitido, para no confiar solo en el tipo
+// que declara el cliente: se sirve tal cual al descargar el adjunto
+const CONTENT_SIGNATURES: Record<AttachmentMimeType, (bytes: Uint8Array) => boolean> = {
+  'image/jpeg': bytes => startsWith(bytes, [0xff, 0xd8, 0xff]),
+  'image/png': bytes => startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  'image/gif': bytes => startsWithText(bytes, 'GIF87a') || startsWithText(bytes, 'GIF89a'),
+  'image/webp': bytes => startsWithText(bytes, 'RIFF') && startsWithText(bytes, 'WEBP', 8),
+  'application/pdf': bytes => startsWithText(bytes, '%PDF-'),
+  'text/plain': isPlainText,
+  // Etiqueta ID3 o directamente la sincronización de la primera trama
+  'audio/mpeg': bytes => startsWithText(bytes, 'ID3') || (bytes[0] === 0xff && ((bytes[1] ?? 0) & 0xe0) === 0xe0),
+  'audio/ogg': bytes => startsWithText(bytes, 'OggS'),
+  'video/mp4': bytes => startsWithText(bytes, 'ftyp', 4)
+};
+
+// Comprueba que el contenido corresponde al tipo MIME declarado
+export const matchesMimeType = (mimeType: string, bytes: Uint8Array) =>
+  Object.hasOwn(CONTENT_SIGNATURES, mimeType) && CONTENT_SIGNATURES[mimeType as AttachmentMimeType](bytes);
+
+// Tipo MIME sin parámetros (p. ej. "text/plain;charset=utf-8" → "text/plain")
+const mimeTypeOf = (file: File) => file.type.split(';')[0]!.trim().toLowerCase();
+
+// Valida tamaño y tipo de los ficheros antes de guardar ninguno
+export const validateAttachments = (files: File[]) => {
+  if (files.length > ATTACHMENT_MAX_FILES) {
+    throw new ValidationError(`No se pueden adjuntar más de ${ATTACHMENT_MAX_FILES} ficheros`, {
+      count: files.length
+    });
+  }
+
+  for (const file of files) {
+    if (!(ATTACHMENT_MIME_TYPES as readonly string[]).includes(mimeTypeOf(file))) {
+      throw new ValidationError('Tipo de fichero no permitido', {
+        fileName: file.name,
+        mimeType: file.type,
+        allowed: ATTACHMENT_MIME_TYPES
+      });
+    }
+    if (file.size === 0 || file.size > ATTACHMENT_MAX_BYTES) {
+      throw new ValidationError(`El fichero debe ocupar entre 1 byte y ${ATTACHMENT_MAX_BYTES} bytes`, {
+        fileName: file.name,
+        size: file.size
+      });
+    }
+  }
+};
+
+/**
+ * Guarda un fichero en el almacenamiento y calcula sus metadatos: checksum
+ * SHA-256 y, en las imágenes, sus dimensiones. Rechaza el fichero si su
+ * contenido no corresponde al tipo declarado.
+ */
+export const storeAttachment = async (chatId: string, file: File): Promise<AttachmentMetadata> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const mimeType = mimeTypeOf(file);
+
+  if (!matchesMimeType(mimeType, bytes)) {
+    throw new ValidationError('El contenido del fichero no corresponde a su tipo', {
+      fileName: file.name,
+      mimeType: file.type
+    });
+  }
+
+  let dimensions: Dimensions | null = null;
+  if (mimeType.startsWith('image/')) {
+    dimensions = readImageDimensions(bytes);
+    if (!dimensions) {
+      throw new ValidationError('La imagen no es válida', { fileName: file.name, mimeType: file.type });
+    }
+  }
+
+  const checksum = new Bun.CryptoHasher('sha256').update(bytes).digest('hex');
+  const storageKey = `${chatId}/${crypto.randomUUID()}`;
+  await storage.put(storageKey, file);
+
+  return {
+    storageKey,
+    fileName: file.name || 'adjunto',
+    mimeType,
+    size: file.size,
+    checksum,
+    width: dimensions?.width ?? null,
+    height: dimensions?.height ?? null
+  };
+};
+
+// Elimina los ficheros del almacenamiento sin interrumpir la operación si alguno falla
+export const removeAttachments = async (attachments: { storageKey: string }[]) => {
+  const results = await Promise.allSettled(
+    attachments.map(attachment => storage.delete(attachment.storageKey))
+  );
+
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      logger.warn('No se pudo eliminar el adjunto', {
+        storageKey: attachments[index]?.storageKey,
+        error: String(result.reason)
+      });
+    }
+  });
+};
+
+// Los ficheros llegan como un único File o como lista según cuántos se envíen
+export const collectFiles = (value: unknown): File[] => {
+  const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  if (!values.every(item => item instanceof File)) {
+    throw new ValidationError('Los adjuntos deben enviarse como ficheros en multipart/form-data', {
+      field: 'attachments'
+    });
+  }
+  return values;
+};
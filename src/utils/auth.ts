@@ -0,0 +1,62 @@
+import Elysia from 'elysia';
+import { jwt } from '@elysiajs/jwt';
+import { User } from '../schema/user';
+import { ForbiddenError, UnauthorizedError } from './errors';
+
+const jwtSecret = process.env.JWT_SECRET;
+if (!jwtSecret && process.env.NODE_ENV === 'production') {
+  throw new Error('La variable de entorno JWT_SECRET es obligatoria en producción');
+}
+
+// Plugin para firmar y verificar los tokens de acceso
+export const authJwt = jwt({
+  name: 'jwt',
+  secret: jwtSecret || 'secreto-de-desarrollo',
+  exp: process.env.JWT_EXPIRES_IN || '7d'
+});
+
+// Extrae el token del encabezado Authorization: Bearer <token>.
+// Los navegadores no permiten cabeceras en WebSocket, así que en ese
+// caso también se acepta el parámetro ?token=
+const extractToken = (
+  headers: Record<string, string | undefined>,
+  query: Record<string, string | undefined>
+) => {
+  const authorization = headers['authorization'];
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+
+  if (headers['upgrade']?.toLowerCase() === 'websocket') {
+    return query.token;
+  }
+
+  return undefined;
+};
+
+// Guardia de autenticación: todas las rutas registradas después de usarla
+// requieren un token válido y reciben el ID del usuario en el contexto
+export const authGuard = new Elysia({ name: 'auth-guard' })
+  .use(authJwt)
+  .derive(async ({ headers, query, jwt }) => {
+    const token = extractToken(headers, query);
+    if (!token) {
+      throw new UnauthorizedError('Token de acceso requerido');
+    }
+
+    const payload = await jwt.verify(token);
+    if (!payload || !payload.sub) {
+      throw new UnauthorizedError('Token de acceso no válido o expirado');
+    }
+
+    return { userId: payload.sub };
+  });
+
+// Hook beforeHandle para rutas de administración. Se aplica con .guard()
+// para que no afecte al resto de rutas registradas después.
+export const requireAdmin = async ({ userId }: { userId: string }) => {
+  const user = await User.findById(userId).select('role');
+  if (user?.role !== 'admin') {
+    throw new ForbiddenError('Se requieren permisos de administrador');
+  }
+};
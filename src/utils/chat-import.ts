@@ -0,0 +1,221 @@
+import mongoose, { type ClientSession } from 'mongoose';
+import { Chat, type ChatDocument } from '../schema/chat';
+import { Contact } from '../schema/contact';
+import { Message, type MessageDirection } from '../schema/message';
+import type { ChatImportInput, ChatImportResult } from '../schema/chat-import';
+import { parseWhatsAppExport } from './whatsapp';
+import { chatSummary, summaryIsOlderThan } from './messages';
+import { chatHub } from './realtime';
+import { withTransaction } from './transaction';
+import { NotFoundError, ValidationError } from './errors';
+
+// Límites de la importación
+export const CHAT_IMPORT_MAX_BYTES = 10 * 1024 * 1024;
+export const CHAT_IMPORT_MAX_MESSAGES = 50000;
+
+type ContactDocument = InstanceType<typeof Contact>;
+
+// Texto de la exportación enviada en el campo file (multipart/form-data)
+export const readExportFile = async (body: unknown) => {
+  const file = (body as Record<string, unknown> | undefined)?.file;
+  if (!(file instanceof File)) {
+    throw new ValidationError('Debe enviarse la exportación en el campo file', { field: 'file' });
+  }
+  if (file.size > CHAT_IMPORT_MAX_BYTES) {
+    throw new ValidationError(`El fichero no puede superar ${CHAT_IMPORT_MAX_BYTES} bytes`, { size: file.size });
+  }
+  return file.text();
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Asigna un contacto a cada autor: el indicado en authors, uno nuevo con los
+ * datos de authors o, si no hay entrada, el único contacto con ese nombre o
+ * con ese teléfono. Los autores que no se pueden resolver se informan todos
+ * juntos antes de crear ningún contacto.
+ */
+const resolveAuthors = async (
+  userId: string,
+  names: string[],
+  authors: NonNullable<ChatImportInput['authors']>,
+  session: ClientSession
+) => {
+  const resolved = new Map<string, ContactDocument>();
+  const pending: { name: string; email: string; phone: string }[] = [];
+  const unresolved: string[] = [];
+
+  for (const name of names) {
+    const mapping = authors[name];
+
+    if (mapping && 'contactId' in mapping) {
+      const contact = mongoose.isValidObjectId(mapping.contactId)
+        ? await Contact.findOne({ _id: mapping.contactId, userId }).session(session)
+        : null;
+      if (!contact) {
+        throw new NotFoundError('Contacto no encontrado', { author: name, contactId: mapping.contactId });
+      }
+      resolved.set(name, contact);
+      continue;
+    }
+
+    if (mapping) {
+      const existing = await Contact.findOne({ userId, email: mapping.email.toLowerCase() }).session(session);
+      if (existing) {
+        resolved.set(name, existing);
+      } else {
+        pending.push({ name, ...mapping });
+      }
+      continue;
+    }
+
+    // Los autores que no están en la agenda aparecen con su número de teléfono
+    const digits = name.replace(/\D/g, '');
+    const candidates = await Contact.find({
+      userId,
+      $or: [
+        { name: new RegExp(`^${escapeRegExp(name)}$`, 'i') },
+        ...(digits.length >= 9 ? [{ phone: digits.slice(-9) }] : [])
+      ]
+    }).limit(2).session(session);
+
+    if (candidates.length === 1) {
+      resolved.set(name, candidates[0]!);
+    } else {
+      unresolved.push(name);
+    }
+  }
+
+  if (unresolved.length > 0) {
+    throw new ValidationError('No se ha podido asignar un contacto a algunos autores; indíquelos en authors', {
+      authors: unresolved
+    });
+  }
+
+  // Se guardan de uno en uno para que se cree el chat de cada contacto nuevo
+  const created: ContactDocument[] = [];
+  for (const { name, email, phone } of pending) {
+    const contact = await new Contact({ userId, name, email, phone }).save({ session });
+    resolved.set(name, contact);
+    created.push(contact);
+  }
+
+  return { resolved, created };
+};
+
+// Chat directo del contacto o, si escriben varios contactos, un grupo nuevo
+const resolveChat = async (
+  userId: string,
+  contacts: ContactDocument[],
+  groupName: string | undefined,
+  session: ClientSession
+): Promise<ChatDocument> => {
+  if (contacts.length === 1) {
+    const contact = contacts[0]!;
+    const chat = await Chat.findOne({ userId, contactId: contact._id }).session(session);
+    return chat ?? new Chat({
+      userId,
+      contactId: contact._id,
+      contactName: contact.name,
+      contactBlocked: contact.isBlocked
+    });
+  }
+
+  return new Chat({
+    userId,
+    type: 'group',
+    name: groupName ?? 'Chat importado',
+    participants: contacts.map(contact => ({ contactId: contact._id, role: 'member' }))
+  });
+};
+
+/**
+ * Importa una exportación de WhatsApp: crea los mensajes en bloque con su
+ * fecha original y actualiza el chat de una sola vez. Los mensajes
+ * importados son historial y se marcan como leídos.
+ *
+ * Los contactos, el chat y los mensajes se guardan en una transacción, de
+ * modo que una importación fallida no deja nada a medias. Como en
+ * sendMessage, el chat se actualiza con operadores atómicos y el resumen
+ * solo cambia si la exportación trae mensajes posteriores al último del chat.
+ */
+export const importWhatsAppChat = async (
+  userId: string,
+  text: string,
+  { ownerName, dateOrder, groupName, authors }: ChatImportInput
+): Promise<ChatImportResult> => {
+  const { messages, skipped, invalidDates } = parseWhatsAppExport(text, dateOrder);
+
+  if (invalidDates.length > 0) {
+    throw new ValidationError('Hay fechas no válidas en la exportación; compruebe el orden de día y mes', {
+      lines: invalidDates.slice(0, 20),
+      dateOrder
+    });
+  }
+  if (messages.length === 0) {
+    throw new ValidationError('La exportación no contiene mensajes', { field: 'file' });
+  }
+  if (messages.length > CHAT_IMPORT_MAX_MESSAGES) {
+    throw new ValidationError(`No se pueden importar más de ${CHAT_IMPORT_MAX_MESSAGES} mensajes a la vez`, {
+      count: messages.length
+    });
+  }
+
+  const contactNames = [...new Set(messages.map(message => message.author))].filter(name => name !== ownerName);
+  if (contactNames.length === 0) {
+    throw new ValidationError('La exportación solo contiene mensajes del usuario', { ownerName });
+  }
+
+  const { resolved, created, chat } = await withTransaction(async session => {
+    const { resolved, created } = await resolveAuthors(userId, contactNames, authors ?? {}, session);
+    // Varios autores pueden corresponder al mismo contacto
+    const contacts = [...new Map([...resolved.values()].map(contact => [contact._id.toString(), contact])).values()];
+    const chat = await resolveChat(userId, contacts, groupName, session);
+    if (chat.isNew) {
+      await chat.save({ session });
+    }
+
+    const documents = messages.map(message => {
+      const outgoing = message.author === ownerName;
+      const direction: MessageDirection = outgoing ? 'outgoing' : 'incoming';
+      return {
+        _id: new mongoose.Types.ObjectId(),
+        chatId: chat._id,
+        direction,
+        senderId: outgoing ? userId : resolved.get(message.author)!._id,
+        content: message.content,
+        status: 'read',
+        deliveredAt: message.timestamp,
+        readAt: message.timestamp,
+        timestamp: message.timestamp
+      };
+    });
+    await Message.insertMany(documents, { session });
+
+    // Los mensajes importados ya están leídos, así que no cambian unreadCount.
+    // Con la misma fecha gana el que aparece después en la exportación
+    const latest = documents.reduce((latest, document) => (document.timestamp >= latest.timestamp ? document : latest));
+    const counters = { $inc: { messageCount: documents.length } };
+    const updated = await Chat.findOneAndUpdate(
+      { _id: chat._id, ...summaryIsOlderThan(latest.timestamp) },
+      { ...counters, $set: chatSummary(latest) },
+      { session, new: true }
+    ) ?? await Chat.findOneAndUpdate({ _id: chat._id }, counters, { session, new: true });
+
+    return { resolved, created, chat: updated ?? chat };
+  });
+
+  // Los hooks de save de Chat no se ejecutan con findOneAndUpdate
+  chatHub.publish(chat._id.toString(), 'chat.updated', chat.toObject());
+
+  return {
+    chatId: chat._id.toString(),
+    imported: messages.length,
+    skipped,
+    createdContacts: created.map(contact => contact._id.toString()),
+    authors: {
+      [ownerName]: null,
+      ...Object.fromEntries([...resolved].map(([name, contact]) => [name, contact._id.toString()]))
+    }
+  };
+};
@@ -0,0 +1,155 @@
+import {
+  Contact,
+  contactValidationSchema,
+  type ContactFileFormat,
+  type ContactImportReport,
+  type ContactInput
+} from '../schema/contact';
+import { parseCsv } from './csv';
+import { parseVCards } from './vcard';
+import { ValidationError, formatZodError } from './errors';
+import { webhookDispatcher } from './webhooks';
+
+// Límites de la importación
+export const CONTACT_IMPORT_MAX_BYTES = 2 * 1024 * 1024;
+export const CONTACT_IMPORT_MAX_ROWS = 5000;
+
+// Nombres de columna admitidos en el CSV para cada campo
+const CSV_COLUMNS: Record<keyof Omit<ContactInput, 'chatId'>, string[]> = {
+  name: ['name', 'nombre', 'full name'],
+  email: ['email', 'e-mail', 'correo', 'correo electrónico'],
+  phone: ['phone', 'teléfono', 'telefono', 'móvil', 'movil', 'mobile']
+};
+
+type ImportRecord = {
+  row: number;
+  data: Record<string, string | undefined>;
+};
+
+// Registros del CSV; la primera fila es la cabecera y la fila 2 es el registro 1
+const readCsv = (text: string): ImportRecord[] => {
+  const [header = [], ...rows] = parseCsv(text);
+  const columns = header.map(name => name.trim().toLowerCase());
+
+  const indexes = Object.fromEntries(
+    Object.entries(CSV_COLUMNS).map(([field, aliases]) => [field, columns.findIndex(c => aliases.includes(c))])
+  );
+  const missing = Object.keys(indexes).filter(field => indexes[field] === -1);
+  if (missing.length > 0) {
+    throw new ValidationError('Faltan columnas en la cabecera del CSV', { missing, header });
+  }
+
+  return rows.map((values, index) => ({
+    row: index + 1,
+    data: Object.fromEntries(
+      Object.entries(indexes).map(([field, column]) => [field, values[column]?.trim()])
+    )
+  }));
+};
+
+const readVCards = (text: string): ImportRecord[] =>
+  parseVCards(text).map((card, index) => ({ row: index + 1, data: card }));
+
+/**
+ * Obtiene el texto a importar del campo file (multipart/form-data) o del
+ * cuerpo en texto (text/plain, text/csv o text/vcard). Elysia solo
+ * interpreta text/plain, así que el resto se lee directamente de la petición.
+ */
+export const readImportFile = async (body: unknown, request: Request) => {
+  const file = (body as Record<string, unknown> | undefined)?.file;
+
+  if (file instanceof File) {
+    if (file.size > CONTACT_IMPORT_MAX_BYTES) {
+      throw new ValidationError(`El fichero no puede superar ${CONTACT_IMPORT_MAX_BYTES} bytes`, { size: file.size });
+    }
+    return { text: await file.text(), fileName: file.name };
+  }
+
+  const text = typeof body === 'string' ? body : body === undefined && !request.bodyUsed ? await request.text() : '';
+  if (text.trim() !== '') {
+    if (Buffer.byteLength(text) > CONTACT_IMPORT_MAX_BYTES) {
+      throw new ValidationError(`El fichero no puede superar ${CONTACT_IMPORT_MAX_BYTES} bytes`, {
+        size: Buffer.byteLength(text)
+      });
+    }
+    return { text, fileName: undefined };
+  }
+
+  throw new ValidationError('Debe enviarse el fichero en el campo file o como texto plano', { field: 'file' });
+};
+
+// Deduce el formato del nombre del fichero o de su contenido
+export const detectFormat = (text: string, fileName?: string): ContactFileFormat => {
+  if (fileName && /\.(vcf|vcard)$/i.test(fileName)) return 'vcard';
+  if (fileName && /\.csv$/i.test(fileName)) return 'csv';
+  return /^\s*BEGIN:VCARD/i.test(text) ? 'vcard' : 'csv';
+};
+
+/**
+ * Importa contactos validando cada registro con contactValidationSchema.
+ * Los registros con errores o con un correo repetido en el fichero se
+ * omiten y se informan; los que coinciden con un contacto existente se
+ * actualizan si upsert está activo y se informan como duplicados si no.
+ */
+export const importContacts = async (
+  userId: string,
+  text: string,
+  format: ContactFileFormat,
+  { upsert }: { upsert: boolean }
+): Promise<ContactImportReport> => {
+  const records = format === 'vcard' ? readVCards(text) : readCsv(text);
+  if (records.length > CONTACT_IMPORT_MAX_ROWS) {
+    throw new ValidationError(`No se pueden importar más de ${CONTACT_IMPORT_MAX_ROWS} contactos a la vez`, {
+      count: records.length
+    });
+  }
+
+  const report: ContactImportReport = { total: records.length, created: 0, updated: 0, duplicates: [], errors: [] };
+
+  // Validación y duplicados dentro del propio fichero
+  const valid = new Map<string, { row: number; contact: ContactInput }>();
+  for (const { row, data } of records) {
+    const result = contactValidationSchema.safeParse({
+      ...data,
+      // Se admiten teléfonos con espacios, guiones o paréntesis
+      phone: data.phone?.replace(/[\s().-]/g, '')
+    });
+    if (!result.success) {
+      report.errors.push({ row, errors: formatZodError(result.error) });
+      continue;
+    }
+
+    const email = result.data.email.toLowerCase();
+    if (valid.has(email)) {
+      report.duplicates.push({ row, email, reason: 'file' });
+      continue;
+    }
+    valid.set(email, { row, contact: { ...result.data, email } });
+  }
+
+  const existing = await Contact.find({ userId, email: { $in: [...valid.keys()] } });
+  const existingByEmail = new Map(existing.map(contact => [contact.email, contact]));
+
+  // Se guardan de uno en uno para que se cree el chat de cada contacto nuevo
+  for (const [email, { row, contact }] of valid) {
+    const current = existingByEmail.get(email);
+    if (!current) {
+      const created = await new Contact({ name: contact.name, email, phone: contact.phone, userId }).save();
+      webhookDispatcher.emit(userId, 'contact.created', created.toObject());
+      report.created++;
+    } else if (upsert) {
+      current.set({ name: contact.name, phone: contact.phone });
+      const changed = current.isModified();
+      await current.save();
+      if (changed) {
+        webhookDispatcher.emit(userId, 'contact.updated', current.toObject());
+      }
+      report.updated++;
+    } else {
+      report.duplicates.push({ row, email, reason: 'existing' });
+    }
+  }
+
+  report.duplicates.sort((a, b) => a.row - b.row);
+  return report;
+};
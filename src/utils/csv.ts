@@ -0,0 +1,66 @@
+/**
+ * Lectura y escritura de CSV (RFC 4180): campos separados por comas,
+ * entre comillas dobles si contienen comas, comillas o saltos de línea.
+ */
+
+// Divide el texto en filas de campos respetando las comillas
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  // Se ignora la marca BOM que añaden algunas hojas de cálculo
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Las líneas vacías no son registros
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+};
+
+// Las hojas de cálculo ejecutan como fórmula los valores que empiezan por estos caracteres
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeField = (value: string) => {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+// Serializa una fila terminada en CRLF
+export const toCsvRow = (values: (string | null | undefined)[]) =>
+  values.map(value => escapeField(value ?? '')).join(',') + '\r\n';
@@ -0,0 +1,179 @@
+import { Elysia } from 'elysia';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { logger, redactUrl } from './logger';
+
+// Códigos de error que puede recibir el cliente en el campo `code`
+export const ERROR_CODES = [
+  'VALIDATION_ERROR',
+  'INVALID_OBJECT_ID',
+  'UNAUTHORIZED',
+  'FORBIDDEN',
+  'NOT_FOUND',
+  'CONFLICT',
+  'PRECONDITION_FAILED',
+  'ROUTE_NOT_FOUND',
+  'INTERNAL_ERROR',
+] as const;
+
+export type ErrorCode = typeof ERROR_CODES[number];
+
+const errorDetailsSchema = z.union([
+  z.record(z.unknown()),
+  z.array(z.object({ field: z.string(), message: z.string() })),
+]);
+
+export type ErrorDetails = z.infer<typeof errorDetailsSchema>;
+
+// Formato único de las respuestas de error
+export const errorResponseSchema = z.object({
+  code: z.enum(ERROR_CODES),
+  error: z.string().describe('Mensaje legible del error'),
+  details: errorDetailsSchema.optional(),
+});
+
+export type ErrorResponse = z.infer<typeof errorResponseSchema>;
+
+// Error base de la aplicación: lleva el estado HTTP y el código de error
+export class AppError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ErrorCode,
+    message: string,
+    readonly details?: ErrorDetails
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  toResponse(): ErrorResponse {
+    return {
+      code: this.code,
+      error: this.message,
+      ...(this.details && { details: this.details })
+    };
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(message = 'Error de validación', details?: ErrorDetails) {
+    super(400, 'VALIDATION_ERROR', message, details);
+  }
+}
+
+export class InvalidObjectIdError extends AppError {
+  constructor(field: string, value: unknown) {
+    super(400, 'INVALID_OBJECT_ID', `El identificador "${field}" no es válido`, { [field]: value });
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message = 'No autorizado') {
+    super(401, 'UNAUTHORIZED', message);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message = 'Acceso denegado') {
+    super(403, 'FORBIDDEN', message);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(404, 'NOT_FOUND', message, details);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(409, 'CONFLICT', message, details);
+  }
+}
+
+// La versión indicada en If-Match no coincide con la actual del recurso
+export class PreconditionFailedError extends AppError {
+  constructor(message: string, details?: ErrorDetails) {
+    super(412, 'PRECONDITION_FAILED', message, details);
+  }
+}
+
+// Función para formatear errores de validación de Zod
+export const formatZodError = (error: z.ZodError) => {
+  return error.errors.map(err => ({
+    field: err.path.join('.'),
+    message: err.message
+  }));
+};
+
+// Comprueba que un identificador es un ObjectId válido antes de consultar
+export const assertObjectId = (value: string, field = 'id') => {
+  if (!mongoose.isValidObjectId(value)) {
+    throw new InvalidObjectIdError(field, value);
+  }
+  return value;
+};
+
+// Convierte cualquier error en un AppError con su estado HTTP
+export const toAppError = (error: unknown, code?: string): AppError => {
+  if (error instanceof AppError) {
+    return error;
+  }
+
+  if (error instanceof z.ZodError) {
+    return new ValidationError('Error de validación', formatZodError(error));
+  }
+
+  if (error instanceof mongoose.Error.CastError) {
+    return new InvalidObjectIdError(error.path, error.value);
+  }
+
+  if (error instanceof mongoose.Error.ValidationError) {
+    return new ValidationError(
+      'Error de validación',
+      Object.values(error.errors).map(err => ({ field: err.path, message: err.message }))
+    );
+  }
+
+  // Índice único violado en MongoDB
+  if (error instanceof mongoose.mongo.MongoServerError && error.code === 11000) {
+    return new ConflictError('El recurso ya existe', error.keyValue);
+  }
+
+  // Otra petición guardó el documento entre su lectura y su escritura
+  if (error instanceof mongoose.Error.VersionError) {
+    return new ConflictError('El recurso ha sido modificado por otra petición');
+  }
+
+  // Cuerpo JSON mal formado
+  if (error instanceof SyntaxError) {
+    return new ValidationError('El cuerpo de la petición no es JSON válido');
+  }
+
+  // Errores propios de Elysia
+  if (code === 'NOT_FOUND') {
+    return new AppError(404, 'ROUTE_NOT_FOUND', 'Ruta no encontrada');
+  }
+  if (code === 'VALIDATION' || code === 'PARSE') {
+    return new ValidationError(error instanceof Error ? error.message : 'Error de validación');
+  }
+
+  return new AppError(500, 'INTERNAL_ERROR', 'Error interno del servidor');
+};
+
+// Manejador global de errores. Debe registrarse antes que las rutas.
+export const errorHandler = new Elysia({ name: 'error-handler' })
+  .onError(({ code, error, set, request }) => {
+    const appError = toAppError(error, code);
+
+    const url = redactUrl(request.url);
+
+    if (appError.status >= 500) {
+      logger.error(`Error [${code}]`, error, { method: request.method, url });
+    } else {
+      logger.warn(`Error [${appError.code}]`, { method: request.method, url, message: appError.message });
+    }
+
+    set.status = appError.status;
+    return appError.toResponse();
+  });
@@ -0,0 +1,21 @@
+import { PreconditionFailedError } from './errors';
+
+// ETag de un documento a partir de su versión (__v)
+export const versionETag = (version: number) => `"${version}"`;
+
+/**
+ * Comprueba la cabecera If-Match contra el ETag actual del recurso. Sin
+ * cabecera la actualización es incondicional; "*" acepta cualquier versión.
+ * Las etiquetas débiles (W/) se comparan por su valor.
+ */
+export const assertIfMatch = (header: string | null | undefined, etag: string) => {
+  if (!header) return;
+
+  const candidates = header.split(',').map(tag => tag.trim().replace(/^W\//, ''));
+  if (candidates.includes('*') || candidates.includes(etag)) return;
+
+  throw new PreconditionFailedError('El recurso ha cambiado desde que se obtuvo', {
+    ifMatch: header,
+    etag
+  });
+};
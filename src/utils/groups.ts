@@ -0,0 +1,60 @@
+import mongoose, { type ClientSession, type Types } from 'mongoose';
+import type { ChatDocument } from '../schema/chat';
+import { Contact } from '../schema/contact';
+import type { SystemEvent } from '../schema/message';
+import { sendMessage } from './messages';
+import { NotFoundError } from './errors';
+
+/**
+ * Comprueba que todos los contactos existen y pertenecen al usuario.
+ * Devuelve los contactos en el mismo orden que los IDs recibidos.
+ */
+export const findOwnedContacts = async (contactIds: string[], userId: string) => {
+  const contacts = await Contact.find({ _id: { $in: contactIds }, userId });
+  const byId = new Map(contacts.map(contact => [contact._id.toString(), contact]));
+
+  const missing = contactIds.filter(id => !byId.has(id));
+  if (missing.length > 0) {
+    throw new NotFoundError('Contacto no encontrado', { contactIds: missing });
+  }
+
+  return contactIds.map(id => byId.get(id)!);
+};
+
+export const findOwnedContact = async (contactId: string, userId: string) => {
+  const contact = await Contact.findOne({ _id: contactId, userId });
+  if (!contact) {
+    throw new NotFoundError('Contacto no encontrado', { contactId });
+  }
+  return contact;
+};
+
+// Participante del grupo que corresponde al contacto, si lo hay
+export const findParticipant = (chat: ChatDocument, contactId: Types.ObjectId | string) =>
+  chat.participants.find(participant => participant.contactId.equals(contactId));
+
+/**
+ * Registra un mensaje del sistema en el chat dentro de la transacción de la
+ * sesión, que debe guardar antes el cambio del grupo. Se envía como mensaje
+ * del usuario ya leído para que no cuente como pendiente. Devuelve el chat
+ * con el resumen actualizado; se publica al confirmarse la transacción.
+ */
+export const addSystemMessage = async (
+  chat: ChatDocument,
+  userId: string,
+  event: SystemEvent,
+  content: string,
+  session: ClientSession
+) => {
+  const { chat: updated } = await sendMessage(chat._id, {
+    type: 'system',
+    event,
+    direction: 'outgoing',
+    senderId: new mongoose.Types.ObjectId(userId),
+    content,
+    status: 'read',
+    timestamp: new Date()
+  }, session);
+
+  return updated ?? chat;
+};
@@ -0,0 +1,103 @@
+import mongoose from 'mongoose';
+import { Contact } from '../schema/contact';
+import { ContactGroup } from '../schema/contact-group';
+import { LABEL_NAME_COLLATION } from '../schema/label';
+import { Tag } from '../schema/tag';
+import { ConflictError, NotFoundError, assertObjectId } from './errors';
+import { withTransaction } from './transaction';
+import { webhookDispatcher } from './webhooks';
+
+type LabelOptions = {
+  // Campo de Contact con los IDs asignados
+  field: 'tagIds' | 'groupIds';
+  // Nombre del parámetro de ruta en los errores
+  param: string;
+  notFound: string;
+  nameTaken: string;
+};
+
+/**
+ * Operaciones comunes de las etiquetas y los grupos de contactos: buscar las
+ * del usuario, comprobar que el nombre está libre, listarlas con su número de
+ * contactos y eliminarlas quitándolas de los contactos.
+ */
+const ownedLabels = <T extends { name: string }>(Model: mongoose.Model<T>, options: LabelOptions) => {
+  const { field, param, notFound, nameTaken } = options;
+
+  const findOwned = async (id: string, userId: string) => {
+    assertObjectId(id, param);
+
+    const label = await Model.findOne({ _id: id, userId });
+    if (!label) {
+      throw new NotFoundError(notFound, { [param]: id });
+    }
+    return label;
+  };
+
+  // El nombre debe ser único entre los del usuario
+  const assertNameAvailable = async (userId: string, name: string, exceptId?: string) => {
+    const existing = await Model.findOne({
+      userId,
+      name,
+      ...(exceptId && { _id: { $ne: exceptId } })
+    }).collation(LABEL_NAME_COLLATION);
+
+    if (existing) {
+      throw new ConflictError(nameTaken, { name });
+    }
+  };
+
+  const listWithCounts = async (userId: string) => {
+    const labels = await Model.find({ userId }).sort({ name: 1 }).collation({ locale: 'es' });
+
+    const counts = await Contact.aggregate<{ _id: mongoose.Types.ObjectId; count: number }>([
+      { $match: { userId: new mongoose.Types.ObjectId(userId), [field]: { $ne: [] } } },
+      { $unwind: `$${field}` },
+      { $group: { _id: `$${field}`, count: { $sum: 1 } } }
+    ]);
+    const countById = new Map(counts.map(({ _id, count }) => [_id.toString(), count]));
+
+    return labels.map(label => ({
+      ...label.toObject(),
+      contactCount: countById.get(label._id.toString()) ?? 0
+    }));
+  };
+
+  // Elimina la etiqueta y la quita de los contactos, que se notifican a los
+  // webhooks como cualquier otro cambio una vez confirmada la transacción
+  const remove = async (labelId: mongoose.Types.ObjectId, userId: string) => {
+    const contactIds = await withTransaction(async session => {
+      await Model.deleteOne({ _id: labelId }, { session });
+
+      const contactIds: mongoose.Types.ObjectId[] = await Contact.find({ userId, [field]: labelId })
+        .session(session)
+        .distinct('_id');
+      // Se incrementa la versión para invalidar los ETag de los contactos afectados
+      await Contact.updateMany(
+        { _id: { $in: contactIds } },
+        { $pull: { [field]: labelId }, $inc: { __v: 1 }, $set: { updatedAt: new Date() } },
+        { session }
+      );
+      return contactIds;
+    });
+
+    const contacts = await Contact.find({ _id: { $in: contactIds }, userId });
+    contacts.forEach(contact => webhookDispatcher.emit(userId, 'contact.updated', contact.toObject()));
+  };
+
+  return { findOwned, assertNameAvailable, listWithCounts, remove };
+};
+
+export const tagLabels = ownedLabels(Tag, {
+  field: 'tagIds',
+  param: 'tagId',
+  notFound: 'Etiqueta no encontrada',
+  nameTaken: 'Ya existe una etiqueta con ese nombre'
+});
+
+export const contactGroupLabels = ownedLabels(ContactGroup, {
+  field: 'groupIds',
+  param: 'groupId',
+  notFound: 'Grupo de contactos no encontrado',
+  nameTaken: 'Ya existe un grupo de contactos con ese nombre'
+});
@@ -64,12 +64,34 @@ class Logger {
 
 export const logger = new Logger();
 
+// Parámetros de la URL que nunca deben llegar a los logs. El WebSocket
+// recibe el token de acceso en ?token= porque el navegador no permite cabeceras
+const SENSITIVE_QUERY_PARAMS = ['token'];
+
+// Devuelve la URL con los parámetros sensibles ocultos
+export const redactUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    let redacted = false;
+    for (const param of SENSITIVE_QUERY_PARAMS) {
+      if (parsed.searchParams.has(param)) {
+        parsed.searchParams.set(param, '***');
+        redacted = true;
+      }
+    }
+    return redacted ? parsed.toString() : url;
+  } catch {
+    return url;
+  }
+};
+
 // Middleware para Elysia
 export const requestLogger = () => {
   return (app: Elysia) =>
     app.onRequest(({ request, set }) => {
       const start = Date.now();
-      const { method, url } = request;
+      const { method } = request;
+      const url = redactUrl(request.url);
       
       logger.info('Incoming request', { method, url });
 
@@ -0,0 +1,92 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import mongoose from 'mongoose';
+import { MongoMemoryReplSet } from 'mongodb-memory-server';
+import { Chat } from '../schema/chat';
+import { Contact } from '../schema/contact';
+import { Message, type MessageDirection } from '../schema/message';
+import { sendMessage } from './messages';
+
+// Las transacciones requieren un replica set: se arranca uno de un solo nodo
+// en memoria. La primera ejecución descarga el binario de mongod
+let replSet: MongoMemoryReplSet;
+
+beforeAll(async () => {
+  replSet = await MongoMemoryReplSet.create({ replSet: { count: 1, storageEngine: 'wiredTiger' } });
+  await mongoose.connect(replSet.getUri());
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await replSet?.stop();
+});
+
+// El middleware de Contact crea su chat directo
+const createChat = async () => {
+  const userId = new mongoose.Types.ObjectId();
+  const contact = await new Contact({
+    userId,
+    name: 'Prueba',
+    email: `prueba-${userId}@example.com`,
+    phone: '600000000'
+  }).save();
+  const chat = await Chat.findOne({ contactId: contact._id });
+  if (!chat) {
+    throw new Error('No se creó el chat del contacto');
+  }
+  return { userId, contact, chat };
+};
+
+describe('sendMessage', () => {
+  test('los envíos en paralelo mantienen los contadores y el último mensaje', async () => {
+    const { userId, contact, chat } = await createChat();
+    const sends = 50;
+    const start = Date.now();
+
+    // Las fechas no siguen el orden de envío: el último mensaje debe ser el más reciente
+    const timestamps = Array.from({ length: sends }, (_, i) => new Date(start + ((i * 7) % sends) * 1000));
+    const directions = timestamps.map((_, i): MessageDirection => (i % 2 === 0 ? 'incoming' : 'outgoing'));
+
+    const results = await Promise.all(timestamps.map((timestamp, i) =>
+      sendMessage(chat._id, {
+        content: `Mensaje ${i}`,
+        direction: directions[i]!,
+        senderId: directions[i] === 'incoming' ? contact._id : userId,
+        timestamp
+      })
+    ));
+
+    const newest = results
+      .map(({ message }) => message)
+      .reduce((latest, message) => (message.timestamp > latest.timestamp ? message : latest));
+    const updated = await Chat.findById(chat._id);
+
+    expect(await Message.countDocuments({ chatId: chat._id })).toBe(sends);
+    expect(updated?.messageCount).toBe(sends);
+    expect(updated?.unreadCount).toBe(directions.filter(direction => direction === 'incoming').length);
+    expect(updated?.lastMessage?.toString()).toBe(newest._id.toString());
+    expect(updated?.lastMessageAt?.getTime()).toBe(newest.timestamp.getTime());
+    expect(updated?.lastMessagePreview).toBe(`Mensaje ${results.findIndex(({ message }) => message === newest)}`);
+  });
+
+  test('un mensaje con fecha anterior no sustituye el último mensaje', async () => {
+    const { userId, chat } = await createChat();
+    const now = Date.now();
+
+    const { message: latest } = await sendMessage(chat._id, {
+      content: 'Reciente',
+      direction: 'outgoing',
+      senderId: userId,
+      timestamp: new Date(now)
+    });
+    const { chat: updated } = await sendMessage(chat._id, {
+      content: 'Atrasado',
+      direction: 'outgoing',
+      senderId: userId,
+      timestamp: new Date(now - 60 * 60 * 1000)
+    });
+
+    expect(updated?.messageCount).toBe(2);
+    expect(updated?.lastMessage?.toString()).toBe(latest._id.toString());
+    expect(updated?.lastMessagePreview).toBe('Reciente');
+  });
+});
@@ -0,0 +1,129 @@
+import type { ClientSession, Types } from 'mongoose';
+import { Chat } from '../schema/chat';
+import {
+  Message,
+  type MessageDirection,
+  type MessageInput,
+  type MessageStatus,
+  type MessageType,
+  type SystemEvent
+} from '../schema/message';
+import type { AttachmentMetadata } from './attachments';
+import { chatHub } from './realtime';
+import { afterCommit, withTransaction } from './transaction';
+import { webhookDispatcher } from './webhooks';
+
+export type NewMessage = Omit<MessageInput, 'chatId' | 'senderId' | 'timestamp' | 'sendAt'> & {
+  // Permite fijar el ID de antemano, como hacen los mensajes programados
+  _id?: Types.ObjectId;
+  senderId: Types.ObjectId;
+  timestamp: Date;
+  attachments?: AttachmentMetadata[];
+  // Solo para los mensajes del sistema de los grupos
+  type?: MessageType;
+  event?: SystemEvent;
+  status?: MessageStatus;
+};
+
+// Campos del mensaje necesarios para el resumen del chat
+export const SUMMARY_FIELDS = '_id timestamp direction content deletedAt attachments.fileName';
+
+const PREVIEW_LENGTH = 100;
+
+type SummarySource = {
+  _id: Types.ObjectId;
+  timestamp: Date;
+  direction: MessageDirection;
+  content?: string | null;
+  deletedAt?: Date | null;
+  attachments?: { fileName: string }[];
+};
+
+// Texto abreviado con el que se muestra el mensaje en la lista de chats
+export const messagePreview = (message: SummarySource) => {
+  if (message.deletedAt) return 'Mensaje eliminado';
+  if (message.content) {
+    return message.content.length > PREVIEW_LENGTH
+      ? `${message.content.slice(0, PREVIEW_LENGTH - 1)}…`
+      : message.content;
+  }
+  const [attachment] = message.attachments ?? [];
+  return attachment ? `Adjunto: ${attachment.fileName}` : '';
+};
+
+// Campos resumen del chat a partir de su último mensaje visible
+export const chatSummary = (message: SummarySource | null) => ({
+  lastMessage: message?._id ?? null,
+  lastMessageAt: message?.timestamp ?? null,
+  lastMessagePreview: message ? messagePreview(message) : null,
+  lastMessageDirection: message?.direction ?? null
+});
+
+// Filtro que solo deja pasar el chat si el mensaje no es anterior a su último
+// mensaje. Así un envío con fecha pasada, o uno que confirma después que otro
+// más reciente, no sustituye el resumen
+export const summaryIsOlderThan = (timestamp: Date) => ({
+  $or: [{ lastMessageAt: null }, { lastMessageAt: { $lte: timestamp } }]
+});
+
+/**
+ * Guarda un mensaje y actualiza los campos resumen del chat en la misma
+ * transacción. El chat se modifica con operadores atómicos ($set, $inc) en
+ * lugar de leer y guardar el documento, de modo que los envíos concurrentes
+ * no pisan sus cambios. Si la transacción se reintenta, el mensaje se
+ * construye de nuevo para no reutilizar un documento a medio guardar.
+ *
+ * Con session el envío se suma a una transacción ya abierta, por ejemplo
+ * para guardar un cambio del grupo junto con su mensaje del sistema.
+ *
+ * Los hooks de save de Chat no se ejecutan con findOneAndUpdate, así que los
+ * eventos en tiempo real se publican aquí una vez confirmada la transacción.
+ */
+export const sendMessage = async (
+  chatId: Types.ObjectId | string,
+  data: NewMessage,
+  session?: ClientSession
+) => {
+  const incoming = data.direction === 'incoming';
+
+  const write = async (session: ClientSession) => {
+    const message = new Message({ ...data, chatId });
+    await message.save({ session });
+
+    // Un mensaje nuevo del contacto saca el chat del archivo y cuenta como no
+    // leído. El desarchivado va aparte para saber si el chat estaba archivado
+    const unarchived = incoming && (await Chat.updateOne(
+      { _id: chatId, isArchived: true },
+      { $set: { isArchived: false } },
+      { session }
+    )).modifiedCount > 0;
+    const counters = { $inc: { messageCount: 1, ...(incoming && { unreadCount: 1 }) } };
+
+    // El resumen solo cambia si el mensaje es el más reciente del chat
+    const chat = await Chat.findOneAndUpdate(
+      { _id: chatId, ...summaryIsOlderThan(message.timestamp) },
+      { ...counters, $set: chatSummary(message) },
+      { session, new: true }
+    ) ?? await Chat.findOneAndUpdate({ _id: chatId }, counters, { session, new: true });
+
+    return { message, chat, unarchived };
+  };
+
+  const { message, chat, unarchived } = session ? await write(session) : await withTransaction(write);
+
+  await afterCommit(session, async () => {
+    chatHub.publish(chatId.toString(), 'message.created', message.toObject());
+    if (!chat) return;
+
+    chatHub.publish(chatId.toString(), 'chat.updated', chat.toObject());
+    // Los mensajes del sistema solo se muestran en el chat; no se notifican a los webhooks
+    if (message.type !== 'system') {
+      webhookDispatcher.emit(chat.userId, 'message.created', message.toObject());
+    }
+    if (unarchived) {
+      webhookDispatcher.emit(chat.userId, 'chat.unarchived', chat.toObject());
+    }
+  });
+
+  return { message, chat };
+};
@@ -0,0 +1,89 @@
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+import { ValidationError } from './errors';
+
+// Rangos que no son accesibles desde Internet: red local, loopback,
+// enlace local (incluidos los metadatos de la nube en 169.254.169.254),
+// privados, reservados y multidifusión
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+];
+
+const PRIVATE_IPV6_RANGES: [string, number][] = [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+];
+
+const privateRanges = new BlockList();
+PRIVATE_IPV4_RANGES.forEach(([network, prefix]) => privateRanges.addSubnet(network, prefix, 'ipv4'));
+PRIVATE_IPV6_RANGES.forEach(([network, prefix]) => privateRanges.addSubnet(network, prefix, 'ipv6'));
+
+// Hosts que se pueden usar aunque resuelvan a una dirección privada, por
+// ejemplo localhost para el receptor de pruebas (WEBHOOK_ALLOWED_HOSTS=localhost)
+const allowedHosts = new Set(
+  (process.env.WEBHOOK_ALLOWED_HOSTS ?? '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean)
+);
+
+// Nombre del host sin los corchetes de las direcciones IPv6
+const hostnameOf = (url: string) => new URL(url).hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+
+export const isPrivateAddress = (address: string) => {
+  const family = isIP(address);
+  if (family === 0) return false;
+  // Las direcciones IPv4 mapeadas en IPv6 (::ffff:10.0.0.1) se comprueban como IPv4
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  return mapped
+    ? privateRanges.check(mapped, 'ipv4')
+    : privateRanges.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * Comprobación sin red para validar la URL al registrarla: rechaza localhost
+ * y las direcciones IP privadas escritas directamente en la URL.
+ */
+export const isPrivateUrl = (url: string) => {
+  if (!URL.canParse(url)) return false;
+
+  const hostname = hostnameOf(url);
+  if (allowedHosts.has(hostname)) return false;
+  return hostname === 'localhost' || hostname.endsWith('.localhost') || isPrivateAddress(hostname);
+};
+
+/**
+ * Resuelve el host de la URL y lanza un error si alguna de sus direcciones es
+ * privada o si no se puede resolver. Se comprueba al registrar el webhook y
+ * antes de cada entrega, porque el DNS puede cambiar entre tanto.
+ */
+export const assertPublicUrl = async (url: string) => {
+  if (isPrivateUrl(url)) {
+    throw new ValidationError('La URL apunta a una dirección privada o local', { url });
+  }
+
+  const hostname = hostnameOf(url);
+  if (allowedHosts.has(hostname) || isIP(hostname) !== 0) {
+    return;
+  }
+
+  const addresses = await lookup(hostname, { all: true, verbatim: true }).catch(() => {
+    throw new ValidationError('No se pudo resolver el host de la URL', { url });
+  });
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new ValidationError('El host de la URL resuelve a una dirección privada o local', { url });
+  }
+};
@@ -0,0 +1,230 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { OpenAPIV3 } from 'openapi-types';
+import { objectIdSchema } from '../schema/common';
+import {
+  authResponseSchema,
+  loginValidationSchema,
+  registerValidationSchema,
+  userResponseSchema
+} from '../schema/user';
+import {
+  contactImportResponseSchema,
+  contactPageResponseSchema,
+  contactResponseSchema,
+  contactUpdateValidationSchema,
+  contactValidationSchema
+} from '../schema/contact';
+import {
+  tagResponseSchema,
+  tagUpdateValidationSchema,
+  tagValidationSchema,
+  tagWithCountResponseSchema
+} from '../schema/tag';
+import {
+  contactGroupResponseSchema,
+  contactGroupUpdateValidationSchema,
+  contactGroupValidationSchema,
+  contactGroupWithCountResponseSchema
+} from '../schema/contact-group';
+import {
+  scheduledMessageResponseSchema,
+  scheduledMessageUpdateValidationSchema
+} from '../schema/scheduled-message';
+import {
+  webhookCreatedResponseSchema,
+  webhookDeliveryResponseSchema,
+  webhookResponseSchema,
+  webhookUpdateValidationSchema,
+  webhookValidationSchema
+} from '../schema/webhook';
+import {
+  chatInboxResponseSchema,
+  chatReadResponseSchema,
+  chatReadValidationSchema,
+  chatResponseSchema,
+  groupChatUpdateValidationSchema,
+  groupChatValidationSchema,
+  participantRoleValidationSchema,
+  participantValidationSchema
+} from '../schema/chat';
+import {
+  messagePageResponseSchema,
+  messageResponseSchema,
+  messageStatusValidationSchema,
+  messageUpdateValidationSchema,
+  messageValidationSchema
+} from '../schema/message';
+import { searchResponseSchema } from '../schema/search';
+import { chatImportResponseSchema, chatImportValidationSchema } from '../schema/chat-import';
+import { errorResponseSchema } from './errors';
+
+type Schema = OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject;
+
+// Convierte un esquema de Zod en un esquema OpenAPI 3 (sin referencias internas)
+export const toOpenApi = (schema: z.ZodTypeAny): OpenAPIV3.SchemaObject => {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, {
+    target: 'openApi3',
+    $refStrategy: 'none'
+  }) as Record<string, unknown>;
+  return jsonSchema as OpenAPIV3.SchemaObject;
+};
+
+// Chat con el contacto y el último mensaje poblados (GET /chats)
+const chatWithContactSchema = chatResponseSchema
+  .omit({ contactId: true, lastMessage: true })
+  .extend({
+    contact: contactResponseSchema.nullable().describe('Contacto del chat directo; null en los grupos'),
+    lastMessage: messageResponseSchema.nullable(),
+  });
+
+// Esquemas que se registran en components.schemas de la documentación
+const componentSchemas = {
+  Error: errorResponseSchema,
+  User: userResponseSchema,
+  RegisterInput: registerValidationSchema,
+  LoginInput: loginValidationSchema,
+  AuthResult: authResponseSchema,
+  Contact: contactResponseSchema,
+  ContactInput: contactValidationSchema,
+  ContactUpdateInput: contactUpdateValidationSchema,
+  ContactImportReport: contactImportResponseSchema,
+  ContactPage: contactPageResponseSchema,
+  Tag: tagResponseSchema,
+  TagWithCount: tagWithCountResponseSchema,
+  TagInput: tagValidationSchema,
+  TagUpdateInput: tagUpdateValidationSchema,
+  ContactGroup: contactGroupResponseSchema,
+  ContactGroupWithCount: contactGroupWithCountResponseSchema,
+  ContactGroupInput: contactGroupValidationSchema,
+  ContactGroupUpdateInput: contactGroupUpdateValidationSchema,
+  Chat: chatResponseSchema,
+  ChatWithContact: chatWithContactSchema,
+  ChatInbox: chatInboxResponseSchema,
+  ChatDetail: chatWithContactSchema.extend({
+    messages: messagePageResponseSchema.pick({ data: true, nextCursor: true, prevCursor: true }),
+  }),
+  ChatReadInput: chatReadValidationSchema,
+  ChatReadResult: chatReadResponseSchema,
+  ChatImportInput: chatImportValidationSchema,
+  ChatImportResult: chatImportResponseSchema,
+  GroupChatInput: groupChatValidationSchema,
+  GroupChatUpdateInput: groupChatUpdateValidationSchema,
+  ParticipantInput: participantValidationSchema,
+  ParticipantRoleInput: participantRoleValidationSchema,
+  Message: messageResponseSchema,
+  MessageInput: messageValidationSchema,
+  MessageUpdateInput: messageUpdateValidationSchema,
+  MessageStatusInput: messageStatusValidationSchema,
+  MessagePage: messagePageResponseSchema,
+  ScheduledMessage: scheduledMessageResponseSchema,
+  ScheduledMessageUpdateInput: scheduledMessageUpdateValidationSchema,
+  Webhook: webhookResponseSchema,
+  WebhookCreated: webhookCreatedResponseSchema,
+  WebhookInput: webhookValidationSchema,
+  WebhookUpdateInput: webhookUpdateValidationSchema,
+  WebhookDelivery: webhookDeliveryResponseSchema,
+  SearchResults: searchResponseSchema,
+  OrphanReport: z.object({
+    chats: z.object({
+      count: z.number().int(),
+      ids: z.array(objectIdSchema),
+    }),
+    messages: z.object({
+      count: z.number().int(),
+      chatIds: z.array(objectIdSchema),
+    }),
+  }),
+  OrphanPurgeResult: z.object({
+    deletedChats: z.number().int(),
+    deletedMessages: z.number().int(),
+    deletedScheduledMessages: z.number().int(),
+    deletedAttachments: z.number().int().describe('Ficheros adjuntos de los mensajes eliminados'),
+  }),
+};
+
+export type ComponentName = keyof typeof componentSchemas;
+
+export const openApiSchemas = Object.fromEntries(
+  Object.entries(componentSchemas).map(([name, schema]) => [name, toOpenApi(schema)])
+) as Record<ComponentName, OpenAPIV3.SchemaObject>;
+
+// Referencia a un esquema registrado
+export const ref = (name: ComponentName): OpenAPIV3.ReferenceObject => ({
+  $ref: `#/components/schemas/${name}`
+});
+
+export const jsonBody = (schema: Schema, required = true): OpenAPIV3.RequestBodyObject => ({
+  required,
+  content: { 'application/json': { schema } }
+});
+
+export const jsonResponse = (description: string, schema: Schema): OpenAPIV3.ResponseObject => ({
+  description,
+  content: { 'application/json': { schema } }
+});
+
+// Respuesta { message, data } usada por las operaciones de escritura
+export const dataResponse = (description: string, data: Schema) =>
+  jsonResponse(description, {
+    type: 'object',
+    properties: {
+      message: { type: 'string' },
+      data
+    },
+    required: ['message', 'data']
+  });
+
+// Respuesta { count, data } usada por los listados
+export const listResponse = (description: string, item: Schema) =>
+  jsonResponse(description, {
+    type: 'object',
+    properties: {
+      count: { type: 'integer' },
+      data: { type: 'array', items: item }
+    },
+    required: ['count', 'data']
+  });
+
+// Respuestas de error con el formato común, por código de estado
+export const errorResponses = (responses: Record<number, string>) =>
+  Object.fromEntries(
+    Object.entries(responses).map(([status, description]) => [status, jsonResponse(description, ref('Error'))])
+  ) as Record<number, OpenAPIV3.ResponseObject>;
+
+// Parámetros de ruta que son ObjectId, con su descripción
+export const pathParameters = (params: Record<string, string>): OpenAPIV3.ParameterObject[] =>
+  Object.entries(params).map(([name, description]) => ({
+    name,
+    in: 'path',
+    required: true,
+    description,
+    schema: toOpenApi(objectIdSchema)
+  }));
+
+// Cabeceras de la petición, con su descripción
+export const headerParameters = (params: Record<string, string>): OpenAPIV3.ParameterObject[] =>
+  Object.entries(params).map(([name, description]) => ({
+    name,
+    in: 'header',
+    required: false,
+    description,
+    schema: { type: 'string' }
+  }));
+
+// Parámetros de consulta a partir del esquema de Zod con el que se validan
+export const queryParameters = (schema: z.ZodTypeAny): OpenAPIV3.ParameterObject[] => {
+  const object = schema instanceof z.ZodEffects ? schema.innerType() : schema;
+  if (!(object instanceof z.ZodObject)) {
+    throw new Error('Los parámetros de consulta deben definirse con z.object');
+  }
+
+  return Object.entries(object.shape as z.ZodRawShape).map(([name, field]) => ({
+    name,
+    in: 'query',
+    required: !field.isOptional(),
+    description: field.description,
+    // La opcionalidad ya la expresa required
+    schema: toOpenApi(field instanceof z.ZodOptional ? field.unwrap() : field)
+  }));
+};
@@ -0,0 +1,76 @@
+import type { ClientSession, Types } from 'mongoose';
+import { Chat } from '../schema/chat';
+import { Contact } from '../schema/contact';
+import { Message } from '../schema/message';
+import { ScheduledMessage } from '../schema/scheduled-message';
+import { removeAttachments } from './attachments';
+import { afterCommit } from './transaction';
+
+// IDs de la lista que no aparecen entre los existentes
+const missing = (ids: Types.ObjectId[], existing: Types.ObjectId[]) => {
+  const found = new Set(existing.map(id => id.toString()));
+  return ids.filter(id => !found.has(id.toString()));
+};
+
+/**
+ * Busca los chats directos cuyo contacto ya no existe y los mensajes cuyo
+ * chat ya no existe o es huérfano. Los grupos no tienen contacto único.
+ */
+export const findOrphans = async (session?: ClientSession) => {
+  const contactIds: Types.ObjectId[] = await Chat.distinct('contactId', { contactId: { $ne: null } })
+    .session(session ?? null);
+  const existingContactIds: Types.ObjectId[] = await Contact.find({ _id: { $in: contactIds } })
+    .session(session ?? null)
+    .distinct('_id');
+  const orphanChatIds: Types.ObjectId[] = await Chat.find({
+    contactId: { $in: missing(contactIds, existingContactIds) }
+  })
+    .session(session ?? null)
+    .distinct('_id');
+
+  const messageChatIds: Types.ObjectId[] = await Message.distinct('chatId').session(session ?? null);
+  const existingChatIds: Types.ObjectId[] = await Chat.find({ _id: { $in: messageChatIds } })
+    .session(session ?? null)
+    .distinct('_id');
+  const orphanMessageChatIds = [...missing(messageChatIds, existingChatIds), ...orphanChatIds];
+
+  const orphanMessageCount = await Message.countDocuments(
+    { chatId: { $in: orphanMessageChatIds } },
+    { session }
+  );
+
+  return { orphanChatIds, orphanMessageChatIds, orphanMessageCount };
+};
+
+/**
+ * Elimina los chats y mensajes huérfanos, también los programados, y sus
+ * adjuntos. Debe llamarse dentro de una transacción para que el informe y el
+ * borrado sean consistentes; los ficheros se borran al confirmarla.
+ */
+export const purgeOrphans = async (session: ClientSession) => {
+  const { orphanChatIds, orphanMessageChatIds } = await findOrphans(session);
+
+  // Los mensajes programados se buscan aparte: su chat puede no tener mensajes
+  const scheduledChatIds: Types.ObjectId[] = await ScheduledMessage.distinct('chatId').session(session);
+  const existingScheduledChatIds: Types.ObjectId[] = await Chat.find({ _id: { $in: scheduledChatIds } })
+    .session(session)
+    .distinct('_id');
+  const orphanScheduledChatIds = [...missing(scheduledChatIds, existingScheduledChatIds), ...orphanChatIds];
+
+  const storageKeys: string[] = await Message.find({ chatId: { $in: orphanMessageChatIds } })
+    .session(session)
+    .distinct('attachments.storageKey');
+
+  const messages = await Message.deleteMany({ chatId: { $in: orphanMessageChatIds } }, { session });
+  const scheduled = await ScheduledMessage.deleteMany({ chatId: { $in: orphanScheduledChatIds } }, { session });
+  const chats = await Chat.deleteMany({ _id: { $in: orphanChatIds } }, { session });
+
+  await afterCommit(session, () => removeAttachments(storageKeys.map(storageKey => ({ storageKey }))));
+
+  return {
+    deletedChats: chats.deletedCount,
+    deletedMessages: messages.deletedCount,
+    deletedScheduledMessages: scheduled.deletedCount,
+    deletedAttachments: storageKeys.length
+  };
+};
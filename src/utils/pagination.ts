@@ -0,0 +1,212 @@
+import mongoose from 'mongoose';
+import { Message, type MessagePageQuery } from '../schema/message';
+import {
+  Contact,
+  normalizeSearchText,
+  type ContactListQuery,
+  type ContactSortField
+} from '../schema/contact';
+import { ValidationError } from './errors';
+import { contactSegmentFilter } from './tags';
+
+// Posición dentro del historial de un chat a partir de la cual se pagina
+type MessagePosition = {
+  timestamp: Date;
+  id?: mongoose.Types.ObjectId;
+};
+
+type MessagePageOptions = Omit<MessagePageQuery, 'cursor'> & {
+  position: MessagePosition | null;
+  // Usuario que consulta: se omiten los mensajes que eliminó solo para él
+  viewerId: string;
+};
+
+/**
+ * Convierte el cursor recibido (ID de mensaje o fecha ISO) en una posición.
+ * Devuelve null si el cursor no es válido o el mensaje no pertenece al chat.
+ */
+export const resolveMessageCursor = async (
+  chatId: string,
+  cursor: string
+): Promise<MessagePosition | null> => {
+  if (mongoose.isValidObjectId(cursor)) {
+    const message = await Message.findOne({ _id: cursor, chatId }).select('timestamp');
+    return message ? { timestamp: message.timestamp, id: message._id } : null;
+  }
+
+  const timestamp = new Date(cursor);
+  return isNaN(timestamp.getTime()) ? null : { timestamp };
+};
+
+/**
+ * Obtiene una página de mensajes de un chat usando el índice
+ * { chatId, timestamp, _id }. Los mensajes se devuelven siempre en orden
+ * cronológico ascendente; prevCursor apunta a mensajes más antiguos y
+ * nextCursor a mensajes más recientes.
+ */
+export const paginateMessages = async (chatId: string, options: MessagePageOptions) => {
+  const { position, direction, limit, viewerId } = options;
+  const isBefore = direction === 'before';
+  const operator = isBefore ? '$lt' : '$gt';
+  const sortOrder = isBefore ? -1 : 1;
+
+  const filter: Record<string, unknown> = { chatId, hiddenFor: { $ne: viewerId } };
+  if (position) {
+    filter.$or = position.id
+      ? [
+          { timestamp: { [operator]: position.timestamp } },
+          { timestamp: position.timestamp, _id: { [operator]: position.id } }
+        ]
+      : [{ timestamp: { [operator]: position.timestamp } }];
+  }
+
+  // Se pide un elemento extra para saber si quedan más mensajes en esa dirección
+  const docs = await Message.find(filter)
+    .sort({ timestamp: sortOrder, _id: sortOrder })
+    .limit(limit + 1);
+
+  const hasMore = docs.length > limit;
+  const messages = docs.slice(0, limit);
+  if (isBefore) {
+    messages.reverse();
+  }
+
+  const oldest = messages[0];
+  const newest = messages[messages.length - 1];
+
+  // Si se paginó desde un cursor, siempre existen mensajes al otro lado de él
+  const hasOlder = isBefore ? hasMore : position !== null;
+  const hasNewer = isBefore ? position !== null : hasMore;
+
+  return {
+    messages,
+    prevCursor: hasOlder && oldest ? oldest._id.toString() : null,
+    nextCursor: hasNewer && newest ? newest._id.toString() : null
+  };
+};
+
+// Campo de Mongo que respalda cada orden del listado de contactos
+const CONTACT_SORT_KEYS: Record<ContactSortField, 'searchName' | 'email' | 'createdAt' | 'updatedAt'> = {
+  name: 'searchName',
+  email: 'email',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+// Posición dentro del listado de contactos: valor del campo de orden y _id
+type ContactPosition = {
+  value: string | Date;
+  id: mongoose.Types.ObjectId;
+};
+
+type ContactSortValues = {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  email: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const encodeContactCursor = (sort: ContactSortField, contact: ContactSortValues) => {
+  const key = CONTACT_SORT_KEYS[sort];
+  const value = key === 'searchName' ? normalizeSearchText(contact.name) : contact[key];
+  const serialized = value instanceof Date ? value.toISOString() : value;
+  return Buffer.from(JSON.stringify([serialized, contact._id.toString()])).toString('base64url');
+};
+
+/**
+ * Decodifica un cursor del listado de contactos. Devuelve null si el cursor
+ * está mal formado o no corresponde al orden pedido.
+ */
+const decodeContactCursor = (sort: ContactSortField, cursor: string): ContactPosition | null => {
+  try {
+    const decoded: unknown = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!Array.isArray(decoded) || decoded.length !== 2) return null;
+    const [value, id] = decoded;
+    if (typeof value !== 'string' || typeof id !== 'string' || !mongoose.isValidObjectId(id)) {
+      return null;
+    }
+
+    const isDate = sort === 'createdAt' || sort === 'updatedAt';
+    const parsed = isDate ? new Date(value) : value;
+    if (parsed instanceof Date && isNaN(parsed.getTime())) return null;
+
+    return { value: parsed, id: new mongoose.Types.ObjectId(id) };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Obtiene una página de contactos de un usuario. La búsqueda es por prefijo
+ * sobre el nombre normalizado, el correo y el teléfono, de modo que cada rama
+ * usa su índice. La paginación por página sirve para listas cortas; con el
+ * cursor se pagina por clave y el coste no crece con la profundidad.
+ */
+export const paginateContacts = async (userId: string, query: ContactListQuery) => {
+  const { q, sort, order, limit, cursor } = query;
+  const key = CONTACT_SORT_KEYS[sort];
+  const sortOrder = order === 'asc' ? 1 : -1;
+  const operator = order === 'asc' ? '$gt' : '$lt';
+
+  const filter: Record<string, unknown> = { userId, ...contactSegmentFilter(query) };
+  if (q) {
+    const branches: Record<string, unknown>[] = [
+      { searchName: new RegExp(`^${escapeRegExp(normalizeSearchText(q))}`) },
+      { email: new RegExp(`^${escapeRegExp(q.toLowerCase())}`) }
+    ];
+    const digits = q.replace(/[\s().-]/g, '');
+    if (/^\+?\d+$/.test(digits)) {
+      branches.push({ phone: new RegExp(`^${escapeRegExp(digits)}`) });
+    }
+    filter.$or = branches;
+  }
+
+  let position: ContactPosition | null = null;
+  if (cursor) {
+    position = decodeContactCursor(sort, cursor);
+    if (!position) {
+      throw new ValidationError('El cursor no es válido', [
+        { field: 'cursor', message: 'Cursor mal formado o de otro orden' }
+      ]);
+    }
+  }
+
+  const pageFilter = position
+    ? {
+        $and: [
+          filter,
+          {
+            $or: [
+              { [key]: { [operator]: position.value } },
+              { [key]: position.value, _id: { [operator]: position.id } }
+            ]
+          }
+        ]
+      }
+    : filter;
+
+  const page = position ? null : query.page ?? 1;
+
+  // Se pide un elemento extra para saber si quedan más contactos
+  const [docs, total] = await Promise.all([
+    Contact.find(pageFilter)
+      .sort({ [key]: sortOrder, _id: sortOrder })
+      .skip(page ? (page - 1) * limit : 0)
+      .limit(limit + 1),
+    Contact.countDocuments(filter)
+  ]);
+
+  const hasMore = docs.length > limit;
+  const contacts = docs.slice(0, limit);
+  const last = contacts[contacts.length - 1];
+
+  return {
+    contacts,
+    total,
+    page,
+    nextCursor: hasMore && last ? encodeContactCursor(sort, last) : null
+  };
+};
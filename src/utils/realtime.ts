@@ -0,0 +1,71 @@
+import type { ServerWebSocket } from 'bun';
+import { logger } from './logger';
+
+// Tipos de eventos que se envían a los clientes suscritos
+export type RealtimeEventType =
+  | 'message.created'
+  | 'message.updated'
+  | 'message.deleted'
+  | 'message.status'
+  | 'chat.updated';
+
+export type RealtimeEvent<T = unknown> = {
+  type: RealtimeEventType;
+  chatId: string;
+  data: T;
+};
+
+type Socket = ServerWebSocket<unknown>;
+
+// Registro de suscripciones: cada chat guarda los sockets que lo escuchan
+class ChatHub {
+  private subscriptions = new Map<string, Set<Socket>>();
+
+  subscribe(socket: Socket, chatId: string): void {
+    const sockets = this.subscriptions.get(chatId) ?? new Set<Socket>();
+    sockets.add(socket);
+    this.subscriptions.set(chatId, sockets);
+  }
+
+  unsubscribe(socket: Socket, chatId: string): void {
+    const sockets = this.subscriptions.get(chatId);
+    if (!sockets) return;
+
+    sockets.delete(socket);
+    if (sockets.size === 0) {
+      this.subscriptions.delete(chatId);
+    }
+  }
+
+  // Elimina el socket de todos los chats (al cerrar la conexión)
+  unsubscribeAll(socket: Socket): void {
+    for (const chatId of [...this.subscriptions.keys()]) {
+      this.unsubscribe(socket, chatId);
+    }
+  }
+
+  // Envía un evento a todos los sockets suscritos al chat.
+  // Los datos se serializan con JSON.stringify igual que las respuestas REST.
+  publish<T>(chatId: string, type: RealtimeEventType, data: T): void {
+    const sockets = this.subscriptions.get(chatId);
+    if (!sockets || sockets.size === 0) return;
+
+    const event: RealtimeEvent<T> = { type, chatId, data };
+    const payload = JSON.stringify(event);
+
+    for (const socket of sockets) {
+      try {
+        socket.send(payload);
+      } catch (error) {
+        logger.warn('No se pudo enviar el evento en tiempo real', {
+          chatId,
+          type,
+          error: error instanceof Error ? error.message : error
+        });
+        this.unsubscribe(socket, chatId);
+      }
+    }
+  }
+}
+
+export const chatHub = new ChatHub();
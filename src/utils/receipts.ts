@@ -0,0 +1,55 @@
+import type { Types } from 'mongoose';
+import { Message } from '../schema/message';
+
+type Id = Types.ObjectId | string;
+
+// Mensajes del contacto que el usuario todavía no ha leído
+const unreadFilter = (chatId: Id, userId: Id) => ({
+  chatId,
+  direction: 'incoming',
+  status: { $ne: 'read' },
+  deletedAt: null,
+  hiddenFor: { $ne: userId }
+});
+
+/**
+ * Cuenta los mensajes no leídos de un chat. Es la fuente de verdad de
+ * Chat.unreadCount, que se recalcula tras marcar mensajes como leídos.
+ */
+export const countUnread = (chatId: Id, userId: Id) =>
+  Message.countDocuments(unreadFilter(chatId, userId));
+
+/**
+ * Marca como leídos los mensajes del contacto hasta la posición indicada
+ * (incluida) o todos si no se indica. Devuelve los IDs actualizados.
+ */
+export const markAsRead = async (
+  chatId: Id,
+  userId: Id,
+  upTo: { timestamp: Date; id: Types.ObjectId } | null,
+  readAt = new Date()
+) => {
+  const filter: Record<string, unknown> = unreadFilter(chatId, userId);
+  if (upTo) {
+    filter.$or = [
+      { timestamp: { $lt: upTo.timestamp } },
+      { timestamp: upTo.timestamp, _id: { $lte: upTo.id } }
+    ];
+  }
+
+  const ids: Types.ObjectId[] = await Message.find(filter).distinct('_id');
+  if (ids.length > 0) {
+    // Un mensaje leído también se considera entregado
+    await Message.updateMany({ _id: { $in: ids } }, [
+      {
+        $set: {
+          status: 'read',
+          readAt,
+          deliveredAt: { $ifNull: ['$deliveredAt', readAt] }
+        }
+      }
+    ]);
+  }
+
+  return ids;
+};
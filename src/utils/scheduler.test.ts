@@ -0,0 +1,65 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import mongoose from 'mongoose';
+import { MongoMemoryReplSet } from 'mongodb-memory-server';
+import { ScheduledMessage } from '../schema/scheduled-message';
+import { SCHEDULER_MAX_ATTEMPTS, dueFilter, failureResult, retryDelay } from './scheduler';
+
+describe('failureResult', () => {
+  const now = new Date('2026-10-18T10:00:00Z');
+
+  test('la espera entre reintentos se duplica con cada intento', () => {
+    expect([1, 2, 3, 4].map(retryDelay)).toEqual([30_000, 60_000, 120_000, 240_000]);
+  });
+
+  test('un fallo con intentos restantes vuelve a pending con el siguiente intento aplazado', () => {
+    expect(failureResult(1, 'Sin conexión', now)).toEqual({
+      status: 'pending',
+      nextAttemptAt: new Date(now.getTime() + retryDelay(1)),
+      error: 'Sin conexión'
+    });
+  });
+
+  test('agotados los intentos el mensaje queda como failed', () => {
+    expect(failureResult(SCHEDULER_MAX_ATTEMPTS, 'Sin conexión', now)).toEqual({
+      status: 'failed',
+      nextAttemptAt: null,
+      error: 'Sin conexión'
+    });
+  });
+});
+
+// La consulta de reserva se comprueba contra MongoDB; la primera ejecución
+// descarga el binario de mongod
+describe('dueFilter', () => {
+  let replSet: MongoMemoryReplSet;
+
+  beforeAll(async () => {
+    replSet = await MongoMemoryReplSet.create({ replSet: { count: 1, storageEngine: 'wiredTiger' } });
+    await mongoose.connect(replSet.getUri());
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await replSet?.stop();
+  });
+
+  test('solo reserva los pendientes vencidos que no esperan a un reintento', async () => {
+    const userId = new mongoose.Types.ObjectId();
+    const now = new Date();
+    const minutes = (count: number) => new Date(now.getTime() + count * 60_000);
+    const schedule = (content: string, fields: Record<string, unknown>) =>
+      new ScheduledMessage({ userId, chatId: new mongoose.Types.ObjectId(), content, ...fields }).save();
+
+    await Promise.all([
+      schedule('vencido', { sendAt: minutes(-5) }),
+      schedule('reintento vencido', { sendAt: minutes(-5), nextAttemptAt: minutes(-1) }),
+      schedule('reintento aplazado', { sendAt: minutes(-5), nextAttemptAt: minutes(1) }),
+      schedule('futuro', { sendAt: minutes(5) }),
+      schedule('enviado', { sendAt: minutes(-5), status: 'sent' })
+    ]);
+
+    const due = await ScheduledMessage.find({ ...dueFilter(now), userId }).sort({ content: 1 });
+
+    expect(due.map(message => message.content)).toEqual(['reintento vencido', 'vencido']);
+  });
+});
@@ -0,0 +1,159 @@
+import mongoose from 'mongoose';
+import { Chat } from '../schema/chat';
+import { ScheduledMessage } from '../schema/scheduled-message';
+import { sendMessage } from './messages';
+import { logger } from './logger';
+
+// Cada cuánto se buscan mensajes vencidos y cuántos intentos tiene cada uno
+export const SCHEDULER_INTERVAL_MS = Number(process.env.SCHEDULER_INTERVAL_MS) || 5000;
+export const SCHEDULER_MAX_ATTEMPTS = Number(process.env.SCHEDULER_MAX_ATTEMPTS) || 3;
+
+// Un envío que sigue en processing pasado este tiempo se considera abandonado
+// (el proceso se detuvo a mitad) y vuelve a pending
+const LOCK_TIMEOUT_MS = 60_000;
+
+// Mensajes que se envían como máximo en cada pasada
+const BATCH_SIZE = 100;
+
+// Reintentos con espera exponencial: 30 s, 1 min, 2 min...
+const BACKOFF_BASE_MS = 30_000;
+
+type ScheduledMessageDocument = mongoose.HydratedDocument<mongoose.InferSchemaType<typeof ScheduledMessage.schema>>;
+
+const isDuplicateKey = (error: unknown) =>
+  error instanceof mongoose.mongo.MongoServerError && error.code === 11000;
+
+export const retryDelay = (attempts: number) => BACKOFF_BASE_MS * 2 ** (attempts - 1);
+
+// Pendientes cuya fecha de envío ha llegado y que no esperan a un reintento
+export const dueFilter = (now: Date) => ({
+  status: 'pending',
+  sendAt: { $lte: now },
+  $or: [{ nextAttemptAt: null }, { nextAttemptAt: { $lte: now } }]
+});
+
+// Tras un fallo el envío se reintenta más tarde o, agotados los intentos, falla
+export const failureResult = (attempts: number, error: string, now = new Date()) => {
+  const exhausted = attempts >= SCHEDULER_MAX_ATTEMPTS;
+  return {
+    status: exhausted ? 'failed' : 'pending',
+    nextAttemptAt: exhausted ? null : new Date(now.getTime() + retryDelay(attempts)),
+    error
+  };
+};
+
+/**
+ * Envía los mensajes programados cuando vence su fecha. El estado vive en
+ * MongoDB, así que tras un reinicio basta con volver a arrancarlo: recupera
+ * los pendientes y los que quedaron a medio enviar.
+ */
+class MessageScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => void this.tick(), SCHEDULER_INTERVAL_MS);
+    void this.tick();
+    logger.info('Dispatcher de mensajes programados iniciado', { intervalMs: SCHEDULER_INTERVAL_MS });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Una pasada: recupera envíos abandonados y envía los vencidos
+  private async tick(): Promise<void> {
+    // Sin conexión no se hace nada; se reintentará en la siguiente pasada
+    if (this.running || mongoose.connection.readyState !== 1) return;
+
+    this.running = true;
+    try {
+      await this.recover();
+
+      for (let sent = 0; sent < BATCH_SIZE; sent++) {
+        const job = await this.claimNext();
+        if (!job) break;
+        await this.dispatch(job);
+      }
+    } catch (error) {
+      logger.error('Error en el dispatcher de mensajes programados', error as Error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async recover(): Promise<void> {
+    const result = await ScheduledMessage.updateMany(
+      { status: 'processing', lockedAt: { $lt: new Date(Date.now() - LOCK_TIMEOUT_MS) } },
+      { $set: { status: 'pending', lockedAt: null } }
+    );
+    if (result.modifiedCount > 0) {
+      logger.warn('Mensajes programados recuperados tras un envío interrumpido', {
+        count: result.modifiedCount
+      });
+    }
+  }
+
+  // Reserva el siguiente mensaje vencido para que ningún otro proceso lo envíe
+  private claimNext() {
+    const now = new Date();
+    return ScheduledMessage.findOneAndUpdate(
+      dueFilter(now),
+      { $set: { status: 'processing', lockedAt: now }, $inc: { attempts: 1 } },
+      { sort: { sendAt: 1 }, new: true }
+    );
+  }
+
+  private async dispatch(job: ScheduledMessageDocument): Promise<void> {
+    let result: Record<string, unknown>;
+
+    try {
+      const chat = await Chat.exists({ _id: job.chatId, userId: job.userId });
+      if (!chat) {
+        result = { status: 'failed', error: 'El chat ya no existe' };
+      } else {
+        await sendMessage(job.chatId, {
+          _id: job.messageId,
+          content: job.content,
+          direction: 'outgoing',
+          senderId: job.userId,
+          timestamp: new Date()
+        });
+        result = { status: 'sent', sentAt: new Date(), nextAttemptAt: null, error: null };
+      }
+    } catch (error) {
+      if (isDuplicateKey(error)) {
+        // Ya se envió antes de una caída: el ID reservado ya existe
+        result = { status: 'sent', sentAt: job.sentAt ?? new Date(), nextAttemptAt: null, error: null };
+      } else {
+        const message = error instanceof Error ? error.message : String(error);
+        result = failureResult(job.attempts, message);
+        logger.warn('Error al enviar un mensaje programado', {
+          id: job._id.toString(),
+          attempts: job.attempts,
+          error: message
+        });
+      }
+    }
+
+    // Solo se escribe si la reserva sigue siendo nuestra: si el envío tardó más
+    // que LOCK_TIMEOUT_MS, otra pasada pudo recuperarlo y reservarlo de nuevo
+    const saved = await ScheduledMessage.updateOne(
+      { _id: job._id, status: 'processing', lockedAt: job.lockedAt },
+      { $set: { ...result, lockedAt: null } }
+    );
+    if (saved.matchedCount === 0) {
+      logger.warn('Mensaje programado modificado durante su envío', {
+        id: job._id.toString(),
+        status: result.status
+      });
+    }
+  }
+}
+
+export const messageScheduler = new MessageScheduler();
@@ -0,0 +1,79 @@
+// Utilidades para resaltar coincidencias de la búsqueda de texto
+
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Minúsculas y sin tildes, carácter a carácter para conservar las posiciones
+const normalize = (text: string) =>
+  Array.from(text, char => char.normalize('NFD').charAt(0).toLowerCase()).join('');
+
+/**
+ * Extrae los términos positivos de una consulta $text de MongoDB:
+ * ignora los términos negados (-palabra) y respeta las frases entre comillas.
+ */
+export const extractSearchTerms = (query: string): string[] => {
+  const terms: string[] = [];
+  const pattern = /(-?)"([^"]+)"|(-?)(\S+)/g;
+
+  for (const match of query.matchAll(pattern)) {
+    const negated = match[1] || match[3];
+    const term = match[2] ?? match[4];
+    if (!negated && term) {
+      terms.push(normalize(term.replace(/"/g, '')));
+    }
+  }
+
+  return terms.filter(term => term.length > 0);
+};
+
+/**
+ * Devuelve un fragmento del texto alrededor de la primera coincidencia con
+ * los términos marcados con <mark>. El resto del texto se escapa como HTML.
+ */
+export const buildSnippet = (text: string, terms: string[], radius = 60): string => {
+  const chars = Array.from(text);
+  const normalized = normalize(text);
+
+  // Rangos [inicio, fin) de todas las coincidencias, ordenados y sin solapes
+  const ranges: Array<[number, number]> = [];
+  for (const term of terms) {
+    let index = normalized.indexOf(term);
+    while (index !== -1) {
+      ranges.push([index, index + term.length]);
+      index = normalized.indexOf(term, index + term.length);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+  }
+
+  const firstMatch = merged[0]?.[0] ?? 0;
+  const start = Math.max(0, firstMatch - radius);
+  const end = Math.min(chars.length, firstMatch + radius);
+
+  let snippet = '';
+  let cursor = start;
+  for (const [from, to] of merged) {
+    if (to <= start || from >= end) continue;
+    const markFrom = Math.max(from, start);
+    const markTo = Math.min(to, end);
+    snippet += escapeHtml(chars.slice(cursor, markFrom).join(''));
+    snippet += `<mark>${escapeHtml(chars.slice(markFrom, markTo).join(''))}</mark>`;
+    cursor = markTo;
+  }
+  snippet += escapeHtml(chars.slice(cursor, end).join(''));
+
+  return `${start > 0 ? '…' : ''}${snippet}${end < chars.length ? '…' : ''}`;
+};
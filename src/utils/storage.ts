@@ -0,0 +1,61 @@
+import { mkdir, unlink } from 'node:fs/promises';
+import path from 'node:path';
+
+/**
+ * Almacenamiento de ficheros. Las claves las genera la aplicación y no deben
+ * depender del nombre original del fichero.
+ */
+export interface StorageDriver {
+  put(key: string, data: Blob): Promise<void>;
+  // Devuelve null si el fichero no existe
+  get(key: string): Promise<Blob | null>;
+  delete(key: string): Promise<void>;
+}
+
+// Almacenamiento en el disco local, bajo un directorio raíz
+export class LocalStorage implements StorageDriver {
+  constructor(private readonly root: string) {}
+
+  // Impide que una clave apunte fuera del directorio raíz
+  private resolve(key: string): string {
+    const root = path.resolve(this.root);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Clave de almacenamiento no válida: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Blob): Promise<void> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await Bun.write(filePath, data);
+  }
+
+  async get(key: string): Promise<Blob | null> {
+    const file = Bun.file(this.resolve(key));
+    return await file.exists() ? file : null;
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.resolve(key));
+    } catch (error) {
+      // Un fichero que ya no existe se da por eliminado
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+}
+
+const createStorage = (): StorageDriver => {
+  const driver = process.env.STORAGE_DRIVER || 'local';
+
+  switch (driver) {
+    case 'local':
+      return new LocalStorage(process.env.UPLOAD_DIR || './uploads');
+    default:
+      throw new Error(`Driver de almacenamiento no soportado: ${driver}`);
+  }
+};
+
+export const storage = createStorage();
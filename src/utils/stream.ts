@@ -0,0 +1,45 @@
+type Cursor<T> = {
+  next(): Promise<T | null>;
+  close(): Promise<unknown>;
+};
+
+/**
+ * Convierte un cursor de Mongoose en un flujo de texto que se envía a medida
+ * que se leen los documentos, sin cargar la colección entera en memoria.
+ */
+export const streamCursor = <T>(
+  cursor: Cursor<T>,
+  serialize: (doc: T) => string,
+  { header = '', footer = '' }: { header?: string; footer?: string } = {}
+) => {
+  const encoder = new TextEncoder();
+  let started = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!started) {
+        started = true;
+        if (header) {
+          controller.enqueue(encoder.encode(header));
+          return;
+        }
+      }
+
+      const doc = await cursor.next();
+      if (!doc) {
+        if (footer) controller.enqueue(encoder.encode(footer));
+        controller.close();
+        await cursor.close();
+        return;
+      }
+      controller.enqueue(encoder.encode(serialize(doc)));
+    },
+    async cancel() {
+      await cursor.close();
+    }
+  });
+};
+
+// Cabecera para que el navegador descargue la respuesta con el nombre indicado
+export const attachmentDisposition = (fileName: string) =>
+  `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`;
@@ -0,0 +1,27 @@
+import mongoose from 'mongoose';
+import { Contact } from '../schema/contact';
+import type { ContactSegmentQuery } from '../schema/tag';
+
+// Condiciones sobre Contact para los filtros tag, group y favorite
+export const contactSegmentFilter = ({ tag, group, favorite }: ContactSegmentQuery) => ({
+  ...(tag && { tagIds: new mongoose.Types.ObjectId(tag) }),
+  ...(group && { groupIds: new mongoose.Types.ObjectId(group) }),
+  ...(favorite && { isFavorite: favorite === 'true' })
+});
+
+/**
+ * Filtro de chats cuyos contactos cumplen la segmentación: chats directos
+ * con el contacto y grupos en los que participa. Devuelve null si no se
+ * pidió ningún filtro.
+ */
+export const chatSegmentFilter = async (userId: string, segment: ContactSegmentQuery) => {
+  if (!segment.tag && !segment.group && !segment.favorite) return null;
+
+  const contactIds = await Contact.find({ userId, ...contactSegmentFilter(segment) }).distinct('_id');
+  return {
+    $or: [
+      { contactId: { $in: contactIds } },
+      { 'participants.contactId': { $in: contactIds } }
+    ]
+  };
+};
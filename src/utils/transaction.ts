@@ -0,0 +1,47 @@
+import mongoose, { type ClientSession } from 'mongoose';
+
+type CommitCallback = () => Promise<void>;
+
+// Tareas pendientes de cada transacción en curso (ver afterCommit)
+const commitCallbacks = new WeakMap<ClientSession, CommitCallback[]>();
+
+/**
+ * Ejecuta la función dentro de una transacción de MongoDB y devuelve su
+ * resultado. La transacción se reintenta ante errores transitorios y se
+ * aborta si la función lanza una excepción.
+ * Requiere que MongoDB se ejecute como replica set.
+ */
+export const withTransaction = async <T>(fn: (session: ClientSession) => Promise<T>): Promise<T> => {
+  const session = await mongoose.startSession();
+  const callbacks: CommitCallback[] = [];
+  commitCallbacks.set(session, callbacks);
+  try {
+    let result: T | undefined;
+    await session.withTransaction(async () => {
+      // Un reintento descarta las tareas registradas por el intento anterior
+      callbacks.length = 0;
+      result = await fn(session);
+    });
+    for (const callback of callbacks) {
+      await callback();
+    }
+    return result as T;
+  } finally {
+    commitCallbacks.delete(session);
+    await session.endSession();
+  }
+};
+
+/**
+ * Ejecuta la función cuando se confirme la transacción de la sesión, o en el
+ * momento si no hay transacción. Sirve para efectos que no se pueden deshacer,
+ * como borrar ficheros, y que no deben ocurrir si la transacción se aborta.
+ */
+export const afterCommit = async (session: ClientSession | undefined, callback: CommitCallback) => {
+  const callbacks = session && commitCallbacks.get(session);
+  if (callbacks) {
+    callbacks.push(callback);
+  } else {
+    await callback();
+  }
+};
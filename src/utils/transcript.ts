@@ -0,0 +1,141 @@
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import type { Types } from 'mongoose';
+import type { ChatExportFormat } from '../schema/chat';
+import { escapeHtml } from './search';
+
+// Campos del mensaje que se incluyen en la transcripción
+export type TranscriptMessage = {
+  _id: Types.ObjectId;
+  type?: string | null;
+  direction: string;
+  senderId: Types.ObjectId;
+  content?: string | null;
+  attachments: { fileName: string; mimeType: string; size: number }[];
+  editedAt?: Date | null;
+  deletedAt?: Date | null;
+  timestamp: Date;
+};
+
+export type TranscriptContext = {
+  chatId: string;
+  title: string;
+  // Nombre de cada remitente por su ID (contactos y usuario)
+  senderNames: Map<string, string>;
+  exportedAt: Date;
+};
+
+type Transcript = {
+  contentType: string;
+  extension: string;
+  header: string;
+  serialize: (message: TranscriptMessage) => string;
+  footer: string;
+};
+
+const formatDate = (date: Date) => format(date, "dd/MM/yyyy HH:mm", { locale: es });
+
+const senderName = (context: TranscriptContext, message: TranscriptMessage) =>
+  message.type === 'system'
+    ? 'Sistema'
+    : context.senderNames.get(message.senderId.toString()) ?? 'Contacto desconocido';
+
+// Texto visible del mensaje; los eliminados para todos quedan como aviso
+const messageText = (message: TranscriptMessage) =>
+  message.deletedAt ? 'Mensaje eliminado' : message.content ?? '';
+
+const jsonTranscript = (context: TranscriptContext): Transcript => {
+  let first = true;
+
+  return {
+    contentType: 'application/json; charset=utf-8',
+    extension: 'json',
+    header: `{"chat":${JSON.stringify({
+      id: context.chatId,
+      title: context.title,
+      exportedAt: context.exportedAt.toISOString()
+    })},"messages":[`,
+    serialize: message => {
+      const entry = JSON.stringify({
+        id: message._id.toString(),
+        type: message.type ?? 'text',
+        direction: message.direction,
+        sender: senderName(context, message),
+        content: messageText(message),
+        attachments: message.attachments.map(({ fileName, mimeType, size }) => ({ fileName, mimeType, size })),
+        edited: Boolean(message.editedAt),
+        deleted: Boolean(message.deletedAt),
+        timestamp: message.timestamp.toISOString(),
+        formattedTimestamp: formatDate(message.timestamp)
+      });
+      const separator = first ? '' : ',';
+      first = false;
+      return separator + entry;
+    },
+    footer: ']}'
+  };
+};
+
+const txtTranscript = (context: TranscriptContext): Transcript => ({
+  contentType: 'text/plain; charset=utf-8',
+  extension: 'txt',
+  header: `${context.title}\nExportado el ${formatDate(context.exportedAt)}\n\n`,
+  serialize: message => {
+    const lines = [`[${formatDate(message.timestamp)}] ${senderName(context, message)}: ${messageText(message)}${message.editedAt ? ' (editado)' : ''}`];
+    for (const attachment of message.deletedAt ? [] : message.attachments) {
+      lines.push(`    <adjunto: ${attachment.fileName}>`);
+    }
+    return lines.join('\n') + '\n';
+  },
+  footer: ''
+});
+
+const htmlTranscript = (context: TranscriptContext): Transcript => ({
+  contentType: 'text/html; charset=utf-8',
+  extension: 'html',
+  header: `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(context.title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 720px; margin: 2rem auto; background: #f4f4f4; }
+.message { margin: .5rem 0; padding: .5rem .75rem; border-radius: 8px; max-width: 80%; background: #fff; }
+.outgoing { margin-left: auto; background: #dcf8c6; }
+.system { margin: .5rem auto; text-align: center; background: none; color: #666; font-style: italic; }
+.deleted { color: #888; font-style: italic; }
+.meta { font-size: .75rem; color: #666; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(context.title)}</h1>
+<p class="meta">Exportado el ${formatDate(context.exportedAt)}</p>
+`,
+  serialize: message => {
+    const classes = ['message', message.type === 'system' ? 'system' : message.direction];
+    if (message.deletedAt) classes.push('deleted');
+
+    const attachments = (message.deletedAt ? [] : message.attachments)
+      .map(attachment => `<div class="meta">Adjunto: ${escapeHtml(attachment.fileName)}</div>`)
+      .join('');
+
+    return `<div class="${classes.join(' ')}">`
+      + `<div class="meta">${escapeHtml(senderName(context, message))} · ${formatDate(message.timestamp)}${message.editedAt ? ' · editado' : ''}</div>`
+      + `<div>${escapeHtml(messageText(message)).replace(/\n/g, '<br>')}</div>`
+      + attachments
+      + '</div>\n';
+  },
+  footer: '</body>\n</html>\n'
+});
+
+// Serializadores de la transcripción según el formato pedido
+export const createTranscript = (transcriptFormat: ChatExportFormat, context: TranscriptContext): Transcript => {
+  switch (transcriptFormat) {
+    case 'json':
+      return jsonTranscript(context);
+    case 'txt':
+      return txtTranscript(context);
+    case 'html':
+      return htmlTranscript(context);
+  }
+};
@@ -0,0 +1,68 @@
+/**
+ * Lectura y escritura de vCard (.vcf). Se leen las versiones 2.1, 3.0 y 4.0
+ * y se exporta en 3.0, la más compatible con las agendas habituales.
+ */
+
+export type VCardContact = {
+  name?: string;
+  email?: string;
+  phone?: string;
+};
+
+const unescapeValue = (value: string) =>
+  value.replace(/\\([\\,;nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+
+const escapeValue = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([,;])/g, '\\$1');
+
+// Divide el fichero en tarjetas y extrae nombre, primer correo y primer teléfono
+export const parseVCards = (text: string): VCardContact[] => {
+  // Las líneas que empiezan por espacio o tabulador continúan la anterior
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+  const cards: VCardContact[] = [];
+  let card: (VCardContact & { structuredName?: string }) | null = null;
+
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    // "item1.EMAIL;TYPE=INTERNET" → "EMAIL"
+    const property = line.slice(0, separator).split(';')[0]!.split('.').pop()!.toUpperCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (property === 'BEGIN' && value.toUpperCase() === 'VCARD') {
+      card = {};
+    } else if (property === 'END' && value.toUpperCase() === 'VCARD' && card) {
+      const { structuredName, ...contact } = card;
+      cards.push({ ...contact, name: contact.name || structuredName });
+      card = null;
+    } else if (card) {
+      if (property === 'FN') {
+        card.name ??= unescapeValue(value);
+      } else if (property === 'N') {
+        // N: apellidos;nombre;otros;prefijos;sufijos
+        const [family = '', given = ''] = value.split(/(?<!\\);/).map(unescapeValue);
+        card.structuredName = [given, family].filter(Boolean).join(' ');
+      } else if (property === 'EMAIL') {
+        card.email ??= unescapeValue(value);
+      } else if (property === 'TEL') {
+        card.phone ??= unescapeValue(value).replace(/^tel:/i, '');
+      }
+    }
+  }
+
+  return cards;
+};
+
+// Serializa un contacto como tarjeta vCard 3.0 con líneas CRLF
+export const toVCard = (contact: { name: string; email: string; phone: string }) =>
+  [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `FN:${escapeValue(contact.name)}`,
+    `N:;${escapeValue(contact.name)};;;`,
+    `EMAIL;TYPE=INTERNET:${escapeValue(contact.email)}`,
+    `TEL;TYPE=CELL:${escapeValue(contact.phone)}`,
+    'END:VCARD'
+  ].join('\r\n') + '\r\n';
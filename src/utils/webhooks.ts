@@ -0,0 +1,195 @@
+import { createHmac, randomUUID } from 'node:crypto';
+import mongoose, { type Types } from 'mongoose';
+import { Webhook, WebhookDelivery, type WebhookEvent } from '../schema/webhook';
+import { logger } from './logger';
+import { assertPublicUrl } from './network';
+
+// Cadencia de la cola de entregas, intentos por entrega y espera máxima por respuesta
+export const WEBHOOK_INTERVAL_MS = Number(process.env.WEBHOOK_INTERVAL_MS) || 5000;
+export const WEBHOOK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 6;
+export const WEBHOOK_TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS) || 10_000;
+
+// Reintentos con espera exponencial: 30 s, 1 min, 2 min, 4 min...
+const BACKOFF_BASE_MS = 30_000;
+
+// Una entrega que sigue en processing pasado este tiempo vuelve a pending
+const LOCK_TIMEOUT_MS = 60_000;
+
+// Entregas que se envían como máximo en cada pasada
+const BATCH_SIZE = 50;
+
+type DeliveryDocument = mongoose.HydratedDocument<mongoose.InferSchemaType<typeof WebhookDelivery.schema>>;
+
+export const retryDelay = (attempts: number) => BACKOFF_BASE_MS * 2 ** (attempts - 1);
+
+/**
+ * Firma HMAC-SHA256 de un envío. Se firma "<timestamp>.<cuerpo>" para que el
+ * receptor pueda rechazar envíos antiguos reutilizados; se envía en la
+ * cabecera X-Webhook-Signature como "sha256=<hex>".
+ */
+export const signPayload = (secret: string, timestamp: number, body: string) =>
+  createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+/**
+ * Cola de entregas de webhooks. Cada evento se guarda como una entrega por
+ * suscriptor antes de enviarse, de modo que los reintentos y el registro
+ * sobreviven a un reinicio. Las entregas fallidas se reintentan con espera
+ * exponencial hasta WEBHOOK_MAX_ATTEMPTS.
+ */
+class WebhookDispatcher {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => void this.tick(), WEBHOOK_INTERVAL_MS);
+    void this.tick();
+    logger.info('Dispatcher de webhooks iniciado', { intervalMs: WEBHOOK_INTERVAL_MS });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Registra un evento para los webhooks activos del usuario suscritos a él.
+   * No bloquea ni hace fallar la petición que lo origina: los errores solo
+   * se registran en el log.
+   */
+  emit(userId: Types.ObjectId | string, event: WebhookEvent, data: unknown): void {
+    this.enqueue(userId, event, data).catch(error => {
+      logger.error('Error al registrar un evento de webhook', error as Error, { event });
+    });
+  }
+
+  // Vuelve a enviar el mismo evento como una entrega nueva
+  async replay(delivery: DeliveryDocument) {
+    const replay = await new WebhookDelivery({
+      webhookId: delivery.webhookId,
+      userId: delivery.userId,
+      eventId: delivery.eventId,
+      event: delivery.event,
+      payload: delivery.payload,
+      replayOf: delivery._id
+    }).save();
+
+    void this.tick();
+    return replay;
+  }
+
+  private async enqueue(userId: Types.ObjectId | string, event: WebhookEvent, data: unknown): Promise<void> {
+    const webhooks = await Webhook.find({ userId, isActive: true, events: event }).select('_id');
+    if (webhooks.length === 0) return;
+
+    // Se guarda ya serializado para que el cuerpo no cambie entre reintentos
+    const eventId = randomUUID();
+    const payload = {
+      id: eventId,
+      event,
+      createdAt: new Date().toISOString(),
+      data: JSON.parse(JSON.stringify(data))
+    };
+
+    await WebhookDelivery.insertMany(webhooks.map(webhook => ({
+      webhookId: webhook._id,
+      userId,
+      eventId,
+      event,
+      payload
+    })));
+
+    void this.tick();
+  }
+
+  // Una pasada: recupera entregas abandonadas y envía las vencidas
+  private async tick(): Promise<void> {
+    if (this.running || mongoose.connection.readyState !== 1) return;
+
+    this.running = true;
+    try {
+      await WebhookDelivery.updateMany(
+        { status: 'processing', lockedAt: { $lt: new Date(Date.now() - LOCK_TIMEOUT_MS) } },
+        { $set: { status: 'pending', lockedAt: null } }
+      );
+
+      for (let sent = 0; sent < BATCH_SIZE; sent++) {
+        const delivery = await this.claimNext();
+        if (!delivery) break;
+        await this.deliver(delivery);
+      }
+    } catch (error) {
+      logger.error('Error en el dispatcher de webhooks', error as Error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private claimNext() {
+    const now = new Date();
+    return WebhookDelivery.findOneAndUpdate(
+      { status: 'pending', nextAttemptAt: { $lte: now } },
+      { $set: { status: 'processing', lockedAt: now }, $inc: { attempts: 1 } },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    );
+  }
+
+  private async deliver(delivery: DeliveryDocument): Promise<void> {
+    const webhook = await Webhook.findById(delivery.webhookId).select('+secret');
+
+    if (!webhook || !webhook.isActive) {
+      delivery.set({ status: 'failed', nextAttemptAt: null, error: 'El webhook se ha eliminado o desactivado' });
+    } else {
+      const body = JSON.stringify(delivery.payload);
+      const timestamp = Math.floor(Date.now() / 1000);
+
+      try {
+        // El host se resuelve de nuevo en cada entrega por si ahora apunta a la red interna
+        await assertPublicUrl(webhook.url);
+
+        const response = await fetch(webhook.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'back-a-p4-webhooks',
+            'X-Webhook-Event': delivery.event,
+            'X-Webhook-Delivery': delivery._id.toString(),
+            'X-Webhook-Timestamp': String(timestamp),
+            'X-Webhook-Signature': `sha256=${signPayload(webhook.secret, timestamp, body)}`
+          },
+          body,
+          redirect: 'manual',
+          signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+        });
+
+        delivery.set('responseStatus', response.status);
+        if (!response.ok) {
+          throw new Error(`El receptor respondió con el estado ${response.status}`);
+        }
+        delivery.set({ status: 'succeeded', nextAttemptAt: null, deliveredAt: new Date(), error: null });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const exhausted = delivery.attempts >= WEBHOOK_MAX_ATTEMPTS;
+        delivery.set({
+          status: exhausted ? 'failed' : 'pending',
+          nextAttemptAt: exhausted ? null : new Date(Date.now() + retryDelay(delivery.attempts)),
+          error: message
+        });
+        logger.warn('Error al entregar un webhook', {
+          deliveryId: delivery._id.toString(),
+          url: webhook.url,
+          attempts: delivery.attempts,
+          error: message
+        });
+      }
+    }
+
+    delivery.set('lockedAt', null);
+    await delivery.save();
+  }
+}
+
+export const webhookDispatcher = new WebhookDispatcher();
@@ -0,0 +1,67 @@
+import { describe, expect, test } from 'bun:test';
+import { parseWhatsAppExport } from './whatsapp';
+
+describe('parseWhatsAppExport', () => {
+  test('lee el formato de Android con mensajes de varias líneas', () => {
+    const text = [
+      '18/10/2026, 21:33 - Ana: Hola',
+      '18/10/2026, 21:34 - Yo: ¿Qué tal?',
+      'Segunda línea',
+      '',
+      'Tercera línea'
+    ].join('\n');
+
+    const { messages, skipped, invalidDates } = parseWhatsAppExport(text, 'DMY');
+
+    expect(skipped).toBe(0);
+    expect(invalidDates).toEqual([]);
+    expect(messages).toEqual([
+      { line: 1, timestamp: new Date(2026, 9, 18, 21, 33), author: 'Ana', content: 'Hola' },
+      { line: 2, timestamp: new Date(2026, 9, 18, 21, 34), author: 'Yo', content: '¿Qué tal?\nSegunda línea\n\nTercera línea' }
+    ]);
+  });
+
+  test('lee el formato de iOS con segundos, hora de 12 horas y marcas de dirección', () => {
+    const text = '\u200e[18/10/26, 9:33:05 p. m.] Ana: Hola\r\n[19/10/26, 12:05:00 a. m.] Ana: Adiós';
+
+    const { messages } = parseWhatsAppExport(text, 'DMY');
+
+    expect(messages.map(({ timestamp, author }) => ({ timestamp, author }))).toEqual([
+      { timestamp: new Date(2026, 9, 18, 21, 33, 5), author: 'Ana' },
+      { timestamp: new Date(2026, 9, 19, 0, 5, 0), author: 'Ana' }
+    ]);
+  });
+
+  test('interpreta la fecha según el orden de día y mes indicado', () => {
+    const text = '10/18/2026, 21:33 - Ana: Hola';
+
+    expect(parseWhatsAppExport(text, 'MDY').messages[0]?.timestamp).toEqual(new Date(2026, 9, 18, 21, 33));
+    expect(parseWhatsAppExport(text, 'DMY').invalidDates).toEqual([1]);
+  });
+
+  test('omite los avisos del sistema y los mensajes vacíos', () => {
+    const text = [
+      '18/10/2026, 21:30 - Los mensajes y las llamadas están cifrados de extremo a extremo.',
+      '18/10/2026, 21:31 - Ana: ',
+      '18/10/2026, 21:33 - Ana: Hola'
+    ].join('\n');
+
+    const { messages, skipped } = parseWhatsAppExport(text, 'DMY');
+
+    expect(skipped).toBe(1);
+    expect(messages.map(message => message.line)).toEqual([3]);
+  });
+
+  test('informa de las fechas imposibles con su número de línea', () => {
+    const text = [
+      '31/02/2026, 10:00 - Ana: Hola',
+      '18/10/2026, 25:00 - Ana: Hola',
+      '18/10/2026, 10:00 - Ana: Hola'
+    ].join('\n');
+
+    const { messages, invalidDates } = parseWhatsAppExport(text, 'DMY');
+
+    expect(invalidDates).toEqual([1, 2]);
+    expect(messages).toHaveLength(1);
+  });
+});
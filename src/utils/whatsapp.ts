@@ -0,0 +1,95 @@
+/**
+ * Lectura de las exportaciones de chat de WhatsApp (.txt). Cada mensaje
+ * empieza por una línea con fecha, hora y autor; las líneas siguientes que
+ * no empiezan por fecha pertenecen al mismo mensaje. Se admiten los formatos
+ * de Android ("18/10/2026, 21:33 - Ana: Hola") y de iOS
+ * ("[18/10/26, 21:33:05] Ana: Hola"), con hora de 24 o 12 horas.
+ */
+
+// Orden de día y mes en la fecha, que depende del idioma del teléfono
+export const WHATSAPP_DATE_ORDERS = ['DMY', 'MDY'] as const;
+
+export type WhatsAppDateOrder = typeof WHATSAPP_DATE_ORDERS[number];
+
+export type WhatsAppMessage = {
+  // Línea del fichero en la que empieza el mensaje
+  line: number;
+  timestamp: Date;
+  author: string;
+  content: string;
+};
+
+const HEADER = /^\[?(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4}),? (\d{1,2}):(\d{2})(?::(\d{2}))? ?([ap])?\.? ?(?:m\.?)?\]? (?:- )?(.*)$/i;
+
+// Marcas de dirección y espacios especiales que añaden algunas versiones
+const cleanLine = (line: string) =>
+  line.replace(/[\u200e\u200f]/g, '').replace(/[\u202f\u00a0]/g, ' ');
+
+const parseTimestamp = (match: RegExpMatchArray, dateOrder: WhatsAppDateOrder) => {
+  const [, first, second, rawYear, rawHour, minute, seconds = '0', meridiem] = match;
+  const [day, month] = dateOrder === 'DMY' ? [first, second] : [second, first];
+  const year = rawYear!.length === 2 ? 2000 + Number(rawYear) : Number(rawYear);
+
+  let hour = Number(rawHour);
+  if (meridiem) {
+    hour = hour % 12 + (meridiem.toLowerCase() === 'p' ? 12 : 0);
+  }
+
+  const date = new Date(year, Number(month) - 1, Number(day), hour, Number(minute), Number(seconds));
+  // Descarta fechas que JavaScript corrige solo, como el 31/02
+  const valid = date.getDate() === Number(day) && date.getMonth() === Number(month) - 1 && hour < 24;
+  return valid ? date : null;
+};
+
+export type WhatsAppParseResult = {
+  messages: WhatsAppMessage[];
+  // Avisos del sistema (cifrado, altas en grupos...) que no tienen autor
+  skipped: number;
+  // Líneas con formato de fecha pero con una fecha imposible
+  invalidDates: number[];
+};
+
+export const parseWhatsAppExport = (text: string, dateOrder: WhatsAppDateOrder): WhatsAppParseResult => {
+  const result: WhatsAppParseResult = { messages: [], skipped: 0, invalidDates: [] };
+  let current: WhatsAppMessage | null = null;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = cleanLine(rawLine);
+    const match = line.match(HEADER);
+
+    if (!match) {
+      // Continuación del mensaje anterior
+      if (current) current.content += `\n${line}`;
+      return;
+    }
+
+    current = null;
+    const timestamp = parseTimestamp(match, dateOrder);
+    if (!timestamp) {
+      result.invalidDates.push(index + 1);
+      return;
+    }
+
+    const body = match[8]!;
+    const separator = body.indexOf(': ');
+    if (separator === -1) {
+      result.skipped++;
+      return;
+    }
+
+    current = {
+      line: index + 1,
+      timestamp,
+      author: body.slice(0, separator).trim(),
+      content: body.slice(separator + 2)
+    };
+    result.messages.push(current);
+  });
+
+  for (const message of result.messages) {
+    message.content = message.content.trim();
+  }
+  result.messages = result.messages.filter(message => message.content !== '');
+
+  return result;
+};